@@ -0,0 +1,132 @@
+import { Component, OnInit, signal } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormBuilder, ReactiveFormsModule, Validators } from '@angular/forms';
+import { ActivatedRoute, Router } from '@angular/router';
+import { MatCardModule } from '@angular/material/card';
+import { MatButtonModule } from '@angular/material/button';
+import { MatFormFieldModule } from '@angular/material/form-field';
+import { MatInputModule } from '@angular/material/input';
+import { MatSelectModule } from '@angular/material/select';
+import { ToastrService } from 'ngx-toastr';
+import { Associate } from '../../model/customer';
+import { Tax } from '../../model/Tax';
+import { CustomerService } from '../../service/customer.service';
+import { InvoiceService } from '../../service/invoice.service';
+
+@Component({
+  selector: 'app-addcustomer',
+  standalone: true,
+  imports: [CommonModule, ReactiveFormsModule, MatCardModule, MatButtonModule, MatFormFieldModule,
+    MatInputModule, MatSelectModule],
+  templateUrl: './addcustomer.component.html',
+  styleUrl: './addcustomer.component.css'
+})
+export class AddcustomerComponent implements OnInit {
+
+  title = 'Create Customer';
+  isEdit = false;
+  isActive = signal(true);
+  issaved = false;
+  editcustomerid = '';
+  taxList = signal<Tax[]>([]);
+
+  constructor(private builder: FormBuilder, private router: Router, private activeroute: ActivatedRoute,
+    private service: CustomerService, private invoiceservice: InvoiceService, private alert: ToastrService) {
+
+  }
+
+  // addresses are free text, but must end with the 6-digit PIN code used for delivery
+  customerform = this.builder.group({
+    id: this.builder.control({ value: '', disabled: true }),
+    name: this.builder.control('', [Validators.required, Validators.maxLength(100)]),
+    address: this.builder.control('', [Validators.required, Validators.minLength(10), Validators.maxLength(250),
+      Validators.pattern(/^[\s\S]*\D[1-9]\d{5}\s*$/)]),
+    taxcode: this.builder.control('', Validators.required),
+    creditlimit: this.builder.control<number | null>(0, [Validators.required, Validators.min(0)])
+  })
+
+  ngOnInit(): void {
+    this.Loadtax();
+    this.editcustomerid = this.activeroute.snapshot.paramMap.get('id') as string;
+    if (this.editcustomerid != null) {
+      this.title = 'Edit Customer';
+      this.isEdit = true;
+      this.SetEditInfo(this.editcustomerid);
+    }
+  }
+
+  Loadtax() {
+    this.invoiceservice.Getalltaxes().subscribe(item => {
+      this.taxList.set(item);
+    });
+  }
+
+  SetEditInfo(customerid: string) {
+    this.service.Getcustomer(customerid).subscribe({
+      next: item => {
+        this.isActive.set(this.service.Isactive(item));
+        this.customerform.setValue({
+          id: item.id, name: item.name, address: item.address, taxcode: item.taxcode,
+          creditlimit: item.creditlimit ?? 0
+        });
+      },
+      error: () => {
+        this.alert.error('Customer ' + customerid + ' was not found', 'Customer');
+        this.router.navigateByUrl('/customer');
+      }
+    });
+  }
+
+  ProceedSave() {
+    if (this.customerform.invalid) {
+      this.customerform.markAllAsTouched();
+      this.alert.warning('Please correct the highlighted fields', 'Validation');
+      return;
+    }
+    let _data: Associate = {
+      id: this.editcustomerid ?? '',
+      name: (this.customerform.value.name as string).trim(),
+      address: (this.customerform.value.address as string).trim(),
+      taxcode: this.customerform.value.taxcode as string,
+      creditlimit: Number(this.customerform.value.creditlimit) || 0
+    };
+    let _save = this.isEdit ? this.service.Updatecustomer(_data) : this.service.Createcustomer(_data);
+    _save.subscribe({
+      next: res => {
+        this.issaved = true;
+        this.alert.success('Customer ' + res.id + (this.isEdit ? ' updated' : ' created') + ' successfully.');
+        this.router.navigateByUrl('/customer');
+      },
+      error: err => {
+        this.alert.error(err.message, 'Save failed');
+      }
+    });
+  }
+
+  Addresserror() {
+    let errors = this.customerform.controls.address.errors;
+    if (errors?.['required']) {
+      return 'Address is required';
+    }
+    if (errors?.['minlength']) {
+      return 'Address is too short';
+    }
+    if (errors?.['maxlength']) {
+      return 'Address must be at most 250 characters';
+    }
+    return 'Address must end with the 6-digit PIN code, e.g. "... chennai 600021"';
+  }
+
+  // used by the canDeactivate guard on the customer routes
+  cannavigate() {
+    if (this.customerform.dirty && !this.issaved) {
+      return confirm('You have unsaved changes to this customer. Do you want to leave?');
+    }
+    return true;
+  }
+
+  Backtolist() {
+    this.router.navigateByUrl('/customer');
+  }
+
+}
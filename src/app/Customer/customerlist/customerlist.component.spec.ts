@@ -0,0 +1,23 @@
+import { ComponentFixture, TestBed } from '@angular/core/testing';
+
+import { CustomerlistComponent } from './customerlist.component';
+
+describe('CustomerlistComponent', () => {
+  let component: CustomerlistComponent;
+  let fixture: ComponentFixture<CustomerlistComponent>;
+
+  beforeEach(async () => {
+    await TestBed.configureTestingModule({
+      imports: [CustomerlistComponent]
+    })
+    .compileComponents();
+
+    fixture = TestBed.createComponent(CustomerlistComponent);
+    component = fixture.componentInstance;
+    fixture.detectChanges();
+  });
+
+  it('should create', () => {
+    expect(component).toBeTruthy();
+  });
+});
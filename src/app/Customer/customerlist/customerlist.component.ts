@@ -0,0 +1,110 @@
+import { Component, OnInit, ViewChild } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { Router } from '@angular/router';
+import { MatCardModule } from '@angular/material/card';
+import { MatTableDataSource, MatTableModule } from '@angular/material/table';
+import { MatPaginator, MatPaginatorModule } from '@angular/material/paginator';
+import { MatSort, MatSortModule } from '@angular/material/sort';
+import { MatButtonModule } from '@angular/material/button';
+import { MatFormFieldModule } from '@angular/material/form-field';
+import { MatInputModule } from '@angular/material/input';
+import { MatCheckboxModule } from '@angular/material/checkbox';
+import { ToastrService } from 'ngx-toastr';
+import { Associate } from '../../model/customer';
+import { CustomerService } from '../../service/customer.service';
+
+@Component({
+  selector: 'app-customerlist',
+  standalone: true,
+  imports: [CommonModule, MatCardModule, MatTableModule, MatPaginatorModule, MatSortModule, MatButtonModule,
+    MatFormFieldModule, MatInputModule, MatCheckboxModule],
+  templateUrl: './customerlist.component.html',
+  styleUrl: './customerlist.component.css'
+})
+export class CustomerlistComponent implements OnInit {
+
+  displayedColumns: string[] = ['id', 'name', 'address', 'taxcode', 'creditlimit', 'status', 'action'];
+  customerList: Associate[] = [];
+  dataSource = new MatTableDataSource<Associate>([]);
+  searchtext = '';
+  showinactive = false;
+
+  @ViewChild(MatPaginator) paginator!: MatPaginator;
+  @ViewChild(MatSort) sort!: MatSort;
+
+  constructor(private service: CustomerService, private router: Router, private alert: ToastrService) {
+
+  }
+
+  ngOnInit(): void {
+    this.dataSource.filterPredicate = (customer, filter) => {
+      let _filter = JSON.parse(filter) as { text: string, showinactive: boolean };
+      return (_filter.showinactive || this.Isactive(customer)) &&
+        (customer.id + ' ' + customer.name + ' ' + customer.address + ' ' + customer.taxcode).toLowerCase().includes(_filter.text);
+    };
+    this.Loadcustomer();
+  }
+
+  Loadcustomer() {
+    this.service.Getallcustomer().subscribe(item => {
+      this.customerList = item;
+      this.dataSource.data = item;
+      this.dataSource.paginator = this.paginator;
+      this.dataSource.sort = this.sort;
+      this.Applyfilter();
+    });
+  }
+
+  Filterchange(event: Event) {
+    this.searchtext = (event.target as HTMLInputElement).value;
+    this.Applyfilter();
+  }
+
+  Showinactive(show: boolean) {
+    this.showinactive = show;
+    this.Applyfilter();
+  }
+
+  // MatTableDataSource skips the predicate for an empty filter, so both settings travel as JSON
+  Applyfilter() {
+    this.dataSource.filter = JSON.stringify({ text: this.searchtext.trim().toLowerCase(), showinactive: this.showinactive });
+  }
+
+  Isactive(customer: Associate) {
+    return this.service.Isactive(customer);
+  }
+
+  Createcustomer() {
+    this.router.navigateByUrl('/customer/add');
+  }
+
+  Editcustomer(id: string) {
+    this.router.navigateByUrl('/customer/edit/' + id);
+  }
+
+  Setactive(customer: Associate, active: boolean) {
+    if (!active && !confirm('Deactivate ' + customer.name + '? The customer can no longer be picked for new invoices.')) {
+      return;
+    }
+    this.service.Setactive(customer, active).subscribe({
+      next: () => {
+        this.alert.success(customer.name + (active ? ' activated' : ' deactivated'), 'Customer');
+        this.Loadcustomer();
+      },
+      error: err => this.alert.error(err.message, 'Customer')
+    });
+  }
+
+  Deletecustomer(customer: Associate) {
+    if (confirm('Delete ' + customer.name + '?')) {
+      this.service.Deletecustomer(customer).subscribe({
+        next: () => {
+          this.alert.success(customer.name + ' deleted', 'Customer');
+          this.Loadcustomer();
+        },
+        error: err => this.alert.error(err.message, 'Not deleted')
+      });
+    }
+  }
+
+}
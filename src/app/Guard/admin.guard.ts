@@ -0,0 +1,15 @@
+import { inject } from '@angular/core';
+import { CanActivateFn, Router } from '@angular/router';
+import { MasterService } from '../service/master.service';
+
+export const adminGuard: CanActivateFn = (route, state) => {
+  let router = inject(Router);
+  let service = inject(MasterService);
+  if (service.isAdmin()) {
+    return true;
+  } else {
+    alert('Only administrators can access this page.')
+    router.navigateByUrl('/');
+    return false;
+  }
+};
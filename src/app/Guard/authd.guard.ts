@@ -1,6 +1,6 @@
 import { CanDeactivateFn } from '@angular/router';
-import { CustomerComponent } from '../common/customer/customer.component';
+import { AddcustomerComponent } from '../Customer/addcustomer/addcustomer.component';
 
-export const authdGuard: CanDeactivateFn<CustomerComponent> = (component, currentRoute, currentState, nextState) => {
+export const authdGuard: CanDeactivateFn<AddcustomerComponent> = (component, currentRoute, currentState, nextState) => {
   return component.cannavigate();
 };
@@ -18,8 +18,14 @@ import { ToastrService } from 'ngx-toastr';
 import { CommonModule } from '@angular/common';
 import { Products } from '../../model/Productmodel';
 import { ProductService } from '../../service/product.service';
-import { Invoice } from '../../model/Invoice';
+import { Invoice, InvoiceStatus } from '../../model/Invoice';
 import { Invoiceproducts } from '../../model/Invoiceproduct';
+import { PricingService } from '../../service/pricing.service';
+import { PricingLine, PricingResult } from '../../model/Pricing';
+import { CustomerService } from '../../service/customer.service';
+import { CreditCheck, CreditOverride } from '../../model/CreditLimit';
+import { MatDialog, MatDialogModule } from '@angular/material/dialog';
+import { CreditoverrideComponent } from '../creditoverride/creditoverride.component';
 
 @Component({
   selector: 'app-addinvoice',
@@ -28,7 +34,7 @@ import { Invoiceproducts } from '../../model/Invoiceproduct';
   imports: [ReactiveFormsModule, MatCardModule,
     MatInputModule, MatFormFieldModule, MatButtonModule,
     MatSelectModule, MatDatepickerModule, MatIconModule,
-    CommonModule, MatDividerModule, MatListModule
+    CommonModule, MatDividerModule, MatListModule, MatDialogModule
   ],
   templateUrl: './addinvoice.component.html',
   styleUrl: './addinvoice.component.css'
@@ -43,15 +49,19 @@ export class AddinvoiceComponent implements OnInit {
   summaryTotal = 0;
   summaryNetTotal = 0;
   summaryTax = 0;
-  taxType = 'E';
+  taxType = 'Exclusive';
   taxPerc = 0;
   editinvoiceno = '';
   isEdit = false;
+  isReadonly = false;
+  creditoverride: CreditOverride | null = null;
   title='Create Invoice'
   displayedColumns: string[] = ['invoiceNo', 'productid', 'name', 'qty', 'price', 'total', 'action'];
   constructor(private builder: FormBuilder, private router: Router,
     public service: InvoiceService, private alert: ToastrService,
-    public proservice: ProductService, private activeroute: ActivatedRoute) {
+    public proservice: ProductService, private activeroute: ActivatedRoute,
+    private pricing: PricingService, private customerservice: CustomerService,
+    private dialog: MatDialog) {
 
   }
   ngOnInit(): void {
@@ -83,18 +93,29 @@ export class AddinvoiceComponent implements OnInit {
     this.router.navigateByUrl('/invoice');
   }
   ProceedSave() {
+    if (this.isReadonly) {
+      return;
+    }
     if (this.invoiceform.valid) {
       let _products: Invoiceproducts[] = [];
-      _products = this.invoiceform.getRawValue().products as Invoiceproducts[];
+      let _priced = this.Pricelines();
+      // store the rate each line was charged at, so later tax changes do not alter the invoice
+      _products = (this.invoiceform.getRawValue().products as Invoiceproducts[]).map((x, i) => ({
+        ...x,
+        total: _priced.lines[i].amount,
+        taxcode: _priced.lines[i].taxcode,
+        taxtype: _priced.lines[i].taxtype,
+        taxperc: _priced.lines[i].taxperc
+      }));
 
       let _data: Invoice = {
         id: 0,
         customerid: this.invoiceform.value.customerno as string,
         customername: this.invoiceform.value.customername as string,
         deliveryaddress: this.invoiceform.value.address as string,
-        nettotal: this.invoiceform.value.nettotal as number,
-        total: this.invoiceform.value.total as number,
-        tax: this.invoiceform.value.tax as number,
+        nettotal: _priced.nettotal,
+        total: _priced.total,
+        tax: _priced.tax,
         products: _products,
         invoicedate: this.invoiceform.value.invoicedate as Date,
         taxcode: this.invoiceform.value.taxcode as string,
@@ -103,18 +124,8 @@ export class AddinvoiceComponent implements OnInit {
       }
       if (this.isEdit) {
         _data.id=parseInt(this.editinvoiceno);
-        this.service.UpdateInvoice(_data).subscribe(res => {
-          this.alert.success('Updated Successfully.');
-          this.router.navigateByUrl('/invoice');
-
-        });
-      } else {
-        this.service.SaveInvoice(_data).subscribe(res => {
-          this.alert.success('Created Successfully.');
-          this.router.navigateByUrl('/invoice');
-
-        });
       }
+      this.Checkcredit(_data);
 
     } else {
       this.alert.warning('Please enter values in all mandatory filed', 'Validation');
@@ -127,9 +138,73 @@ export class AddinvoiceComponent implements OnInit {
     })
   }
 
+  // Inactive customers cannot be picked; a draft already raised for one still shows its customer
+  Customeroptions() {
+    return this.customerList.filter(x => this.customerservice.Isactive(x) || x.id == this.invoiceform.getRawValue().customerno);
+  }
+
+  Isactivecustomer(customer: Associate) {
+    return this.customerservice.Isactive(customer);
+  }
+
+  // Saves straight away within the credit limit; over it, a supervisor has to approve the override
+  Checkcredit(_data: Invoice) {
+    let _customer = this.customerList.find(x => x.id == _data.customerid);
+    if (_customer != null && !this.customerservice.Isactive(_customer)) {
+      this.alert.error(_customer.name + ' is inactive. Pick an active customer.', 'Save failed');
+      return;
+    }
+    this.service.Creditcheck(_data.customerid, _data.nettotal, this.isEdit ? _data.id : undefined).subscribe({
+      next: check => {
+        if (check.exceededby == 0) {
+          this.Saveinvoice(_data);
+          return;
+        }
+        this.dialog.open<CreditoverrideComponent, { check: CreditCheck }, CreditOverride>(CreditoverrideComponent, {
+          width: '50%',
+          data: { check: check }
+        }).afterClosed().subscribe(approval => {
+          if (approval) {
+            this.Saveinvoice({ ..._data, creditoverride: approval });
+          } else {
+            this.alert.warning('Not saved: the credit limit of ' + check.customername + ' is exceeded.', 'Credit limit');
+          }
+        });
+      },
+      error: err => {
+        this.alert.error(err.message, 'Credit check failed');
+      }
+    });
+  }
+
+  Saveinvoice(_data: Invoice) {
+    if (this.isEdit) {
+      this.service.UpdateInvoice(_data).subscribe({
+        next: res => {
+          this.alert.success('Updated Successfully.');
+          this.router.navigateByUrl('/invoice');
+        },
+        error: err => {
+          this.alert.error(err.message, 'Save failed');
+        }
+      });
+    } else {
+      this.service.SaveInvoice(_data).subscribe({
+        next: res => {
+          this.alert.success('Invoice ' + res.invoiceno + ' created successfully.');
+          this.router.navigateByUrl('/invoice');
+        },
+        error: err => {
+          this.alert.error(err.message, 'Save failed');
+        }
+      });
+    }
+  }
+
   Loadtax() {
     this.service.Getalltaxes().subscribe(item => {
       this.taxList = item;
+      this.summarycalculation();
     })
   }
 
@@ -150,17 +225,30 @@ export class AddinvoiceComponent implements OnInit {
           this.addnewproduct();
           processcount++;
           if (processcount == editdata.products.length) {
+            // issued, paid and cancelled invoices can only be viewed, with the totals they were issued at
+            this.isReadonly = this.service.Invoicestatus(editdata) != InvoiceStatus.Draft;
+            this.creditoverride = editdata.creditoverride ?? null;
             this.invoiceform.setValue({
-              invoiceno: editdata.id.toString(), customerno: editdata.customerid,
+              invoiceno: editdata.invoiceno ?? editdata.id.toString(), customerno: editdata.customerid,
               customername: editdata.customername, address: editdata.deliveryaddress,
               total: editdata.total, tax: editdata.tax, nettotal: editdata.nettotal,
-              invoicedate: editdata.invoicedate ? new Date() : new Date(editdata.invoicedate),
+              invoicedate: editdata.invoicedate ? new Date(editdata.invoicedate) : new Date(),
               taxcode: editdata.taxcode,
-              products: editdata.products
+              products: editdata.products.map(x => ({
+                productid: x.productid, name: x.name, qty: x.qty, price: x.price, total: x.total,
+                taxcode: x.taxcode ?? editdata.taxcode
+              }))
             })
-            this.taxType = editdata.taxtype
+            this.taxType = this.pricing.Taxtype(editdata.taxtype)
             this.taxPerc = editdata.taxperc
             this.summarycalculation();
+            if (this.isReadonly) {
+              this.summaryTotal = editdata.total
+              this.summaryTax = editdata.tax
+              this.summaryNetTotal = editdata.nettotal
+              this.title = 'Invoice ' + editdata.invoiceno + ' (' + editdata.status + ')';
+              this.invoiceform.disable();
+            }
           }
         };
 
@@ -183,13 +271,15 @@ export class AddinvoiceComponent implements OnInit {
     })
   }
 
+  // The invoice tax becomes the default for every line; lines can still be changed one by one
   Taxchange(taxcode: string) {
-    console.log(taxcode);
     this.service.Gettax(taxcode).subscribe(item => {
       let _tax = item;
       if (_tax != null) {
-        this.taxPerc = _tax.perc;
-        this.taxType = _tax.id
+        let rate = this.pricing.Taxrate(_tax);
+        this.taxPerc = rate.taxperc;
+        this.taxType = rate.taxtype;
+        this.invproducts.controls.forEach(row => row.get('taxcode')?.setValue(taxcode));
         this.summarycalculation();
       }
     })
@@ -223,7 +313,8 @@ export class AddinvoiceComponent implements OnInit {
       name: this.builder.control(''),
       qty: this.builder.control(1),
       price: this.builder.control(0),
-      total: this.builder.control({ value: 0, disabled: true })
+      total: this.builder.control({ value: 0, disabled: true }),
+      taxcode: this.builder.control(this.invoiceform.value.taxcode ?? '')
     });
   }
 
@@ -247,10 +338,11 @@ export class AddinvoiceComponent implements OnInit {
   Itemcalculation(index: any) {
     this.invoiceproducts = this.invoiceform.get("products") as FormArray;
     this.invoiceproduct = this.invoiceproducts.at(index) as FormGroup;
-    let qty = this.invoiceproduct.get("qty")?.value;
-    let price = this.invoiceproduct.get("price")?.value;
-    let total = qty * price;
-    this.invoiceproduct.get("total")?.setValue(total);
+    let line = this.pricing.Priceline({
+      qty: this.invoiceproduct.get("qty")?.value,
+      price: this.invoiceproduct.get("price")?.value
+    }, this.Defaulttax());
+    this.invoiceproduct.get("total")?.setValue(line.amount);
 
     this.summarycalculation();
   }
@@ -263,39 +355,36 @@ export class AddinvoiceComponent implements OnInit {
   }
 
   summarycalculation() {
-    let array = this.invoiceform.getRawValue().products;
-    let sumtotal = 0
-    let sumtax = 0
-    let nettotal = 0
-    array.forEach((x: any) => {
-      sumtotal = sumtotal + x.total;
-    });
-
-    // tax calculation
-    if (this.taxType == 'Exclusive') {
-      if (this.taxPerc > 0) {
-        sumtax = (this.taxPerc / 100) * sumtotal;
-        nettotal = sumtotal + sumtax;
-      }
-
-    } else if (this.taxType == 'Inclusive') {
-      sumtax = sumtotal - (sumtotal * (100 / (100 + this.taxPerc)))
-      nettotal = sumtotal - sumtax
-
-    } else {
-      sumtax = 0;
-      nettotal = sumtotal;
+    if (this.isReadonly) {
+      return;
     }
+    let summary = this.Pricelines();
 
+    this.invoiceform.get("total")?.setValue(summary.total);
+    this.invoiceform.get("tax")?.setValue(summary.tax);
+    this.invoiceform.get("nettotal")?.setValue(summary.nettotal);
 
-    this.invoiceform.get("total")?.setValue(sumtotal);
-    this.invoiceform.get("tax")?.setValue(sumtax);
-    this.invoiceform.get("nettotal")?.setValue(nettotal);
+    this.summaryTotal = summary.total
+    this.summaryTax = summary.tax
+    this.summaryNetTotal = summary.nettotal
+  }
 
-    this.summaryTotal = sumtotal
-    this.summaryTax = sumtax
-    this.summaryNetTotal = nettotal
+  Pricelines(): PricingResult {
+    let lines: PricingLine[] = this.invoiceform.getRawValue().products.map((x: any) => {
+      let _tax = this.taxList.find(t => t.id == x.taxcode);
+      return _tax != null
+        ? { qty: x.qty, price: x.price, ...this.pricing.Taxrate(_tax) }
+        : { qty: x.qty, price: x.price };
+    });
+    return this.pricing.Calculate(lines, this.Defaulttax());
   }
 
+  Defaulttax() {
+    return {
+      taxcode: this.invoiceform.value.taxcode ?? '',
+      taxtype: this.pricing.Taxtype(this.taxType),
+      taxperc: this.taxPerc
+    };
+  }
 
 }
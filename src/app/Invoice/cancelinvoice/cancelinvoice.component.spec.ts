@@ -0,0 +1,43 @@
+import { ComponentFixture, TestBed } from '@angular/core/testing';
+import { MAT_DIALOG_DATA, MatDialogRef } from '@angular/material/dialog';
+
+import { CancelinvoiceComponent } from './cancelinvoice.component';
+
+describe('CancelinvoiceComponent', () => {
+  let component: CancelinvoiceComponent;
+  let fixture: ComponentFixture<CancelinvoiceComponent>;
+  let dialogref: jasmine.SpyObj<MatDialogRef<CancelinvoiceComponent, string>>;
+
+  beforeEach(async () => {
+    dialogref = jasmine.createSpyObj('MatDialogRef', ['close']);
+
+    await TestBed.configureTestingModule({
+      imports: [CancelinvoiceComponent],
+      providers: [
+        { provide: MatDialogRef, useValue: dialogref },
+        { provide: MAT_DIALOG_DATA, useValue: { invoice: { id: 1, invoiceno: 'INV/2024-25/00001' } } }
+      ]
+    })
+    .compileComponents();
+
+    fixture = TestBed.createComponent(CancelinvoiceComponent);
+    component = fixture.componentInstance;
+    fixture.detectChanges();
+  });
+
+  it('should create', () => {
+    expect(component).toBeTruthy();
+  });
+
+  it('should not close without a reason', () => {
+    component.ProceedCancel();
+    expect(component.cancelform.valid).toBeFalse();
+    expect(dialogref.close).not.toHaveBeenCalled();
+  });
+
+  it('should close with the trimmed reason', () => {
+    component.cancelform.setValue({ reason: '  Duplicate invoice  ' });
+    component.ProceedCancel();
+    expect(dialogref.close).toHaveBeenCalledWith('Duplicate invoice');
+  });
+});
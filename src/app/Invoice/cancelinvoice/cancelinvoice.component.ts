@@ -0,0 +1,40 @@
+import { Component, Inject } from '@angular/core';
+import { FormBuilder, ReactiveFormsModule, Validators } from '@angular/forms';
+import { MatFormFieldModule } from '@angular/material/form-field';
+import { MatInputModule } from '@angular/material/input';
+import { MatCardModule } from '@angular/material/card';
+import { MatButtonModule } from '@angular/material/button';
+import { MAT_DIALOG_DATA, MatDialogRef } from '@angular/material/dialog';
+import { Invoice } from '../../model/Invoice';
+
+@Component({
+  selector: 'app-cancelinvoice',
+  standalone: true,
+  imports: [ReactiveFormsModule, MatFormFieldModule, MatInputModule, MatCardModule, MatButtonModule],
+  templateUrl: './cancelinvoice.component.html',
+  styleUrl: './cancelinvoice.component.css'
+})
+export class CancelinvoiceComponent {
+
+  constructor(private builder: FormBuilder, private ref: MatDialogRef<CancelinvoiceComponent, string>,
+    @Inject(MAT_DIALOG_DATA) public data: { invoice: Invoice }) {
+
+  }
+
+  cancelform = this.builder.group({
+    reason: this.builder.control('', [Validators.required, Validators.maxLength(200)])
+  })
+
+  ProceedCancel() {
+    if (this.cancelform.valid) {
+      this.ref.close((this.cancelform.value.reason as string).trim());
+    } else {
+      this.cancelform.markAllAsTouched();
+    }
+  }
+
+  closepopup() {
+    this.ref.close();
+  }
+
+}
@@ -1,18 +1,18 @@
 import { ComponentFixture, TestBed } from '@angular/core/testing';
 
-import { CustomerComponent } from './customer.component';
+import { CreditnoteComponent } from './creditnote.component';
 
-describe('CustomerComponent', () => {
-  let component: CustomerComponent;
-  let fixture: ComponentFixture<CustomerComponent>;
+describe('CreditnoteComponent', () => {
+  let component: CreditnoteComponent;
+  let fixture: ComponentFixture<CreditnoteComponent>;
 
   beforeEach(async () => {
     await TestBed.configureTestingModule({
-      imports: [CustomerComponent]
+      imports: [CreditnoteComponent]
     })
     .compileComponents();
 
-    fixture = TestBed.createComponent(CustomerComponent);
+    fixture = TestBed.createComponent(CreditnoteComponent);
     component = fixture.componentInstance;
     fixture.detectChanges();
   });
@@ -0,0 +1,122 @@
+import { Component, OnInit, signal } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormArray, FormBuilder, FormControl, ReactiveFormsModule, Validators } from '@angular/forms';
+import { ActivatedRoute, Router } from '@angular/router';
+import { MatCardModule } from '@angular/material/card';
+import { MatButtonModule } from '@angular/material/button';
+import { MatFormFieldModule } from '@angular/material/form-field';
+import { MatInputModule } from '@angular/material/input';
+import { MatDatepickerModule } from '@angular/material/datepicker';
+import { MatIconModule } from '@angular/material/icon';
+import { provideNativeDateAdapter } from '@angular/material/core';
+import { ToastrService } from 'ngx-toastr';
+import { forkJoin } from 'rxjs';
+import { Invoice, InvoiceStatus } from '../../model/Invoice';
+import { CreditNote } from '../../model/CreditNote';
+import { InvoiceService } from '../../service/invoice.service';
+
+@Component({
+  selector: 'app-creditnote',
+  standalone: true,
+  providers: [provideNativeDateAdapter()],
+  imports: [CommonModule, ReactiveFormsModule, MatCardModule, MatButtonModule, MatFormFieldModule,
+    MatInputModule, MatDatepickerModule, MatIconModule],
+  templateUrl: './creditnote.component.html',
+  styleUrl: './creditnote.component.css'
+})
+export class CreditnoteComponent implements OnInit {
+
+  invoice = signal<Invoice | null>(null);
+  creditnotes = signal<CreditNote[]>([]);
+  creditable = signal<number[]>([]);
+  saving = signal(false);
+
+  constructor(private builder: FormBuilder, private router: Router, private activeroute: ActivatedRoute,
+    public service: InvoiceService, private alert: ToastrService) {
+
+  }
+
+  creditform = this.builder.group({
+    creditdate: this.builder.control(new Date(), Validators.required),
+    reason: this.builder.control('', [Validators.required, Validators.maxLength(200)]),
+    lines: this.builder.array<FormControl<number | null>>([])
+  })
+
+  get creditlines() {
+    return this.creditform.get('lines') as FormArray<FormControl<number | null>>;
+  }
+
+  ngOnInit(): void {
+    let invoiceno = this.activeroute.snapshot.paramMap.get('id') as string;
+    this.Loadinvoice(parseInt(invoiceno));
+  }
+
+  Loadinvoice(invoiceid: number) {
+    forkJoin({
+      invoice: this.service.GetInvoicebyCode(invoiceid),
+      creditnotes: this.service.GetCreditNotes(invoiceid)
+    }).subscribe(res => {
+      let creditable = this.service.Creditableqty(res.invoice, res.creditnotes);
+      this.invoice.set(res.invoice);
+      this.creditnotes.set(res.creditnotes);
+      this.creditable.set(creditable);
+      this.creditlines.clear();
+      creditable.forEach(max => {
+        this.creditlines.push(this.builder.control(0, [Validators.min(0), Validators.max(max)]));
+      });
+      if (!this.Cancredit()) {
+        this.creditform.disable();
+      }
+    })
+  }
+
+  Cancredit() {
+    let _invoice = this.invoice();
+    return _invoice != null && this.service.Invoicestatus(_invoice) == InvoiceStatus.Issued;
+  }
+
+  // Live preview of the credit note as the quantities change
+  Preview() {
+    let _invoice = this.invoice();
+    if (_invoice == null) {
+      return null;
+    }
+    return this.service.Buildcreditnote(_invoice, this.Chosenlines(), '', new Date());
+  }
+
+  Creditall() {
+    this.creditlines.controls.forEach((control, index) => control.setValue(this.creditable()[index]));
+  }
+
+  ProceedSave() {
+    if (this.creditform.invalid) {
+      this.creditform.markAllAsTouched();
+      this.alert.warning('Please check the reason and the quantities to credit', 'Validation');
+      return;
+    }
+    this.saving.set(true);
+    this.service.SaveCreditNote(this.invoice()!.id, this.Chosenlines(),
+      this.creditform.value.reason as string, this.creditform.value.creditdate as Date).subscribe({
+      next: res => {
+        this.saving.set(false);
+        this.alert.success('Credit note ' + res.creditnote.creditnoteno + ' created.');
+        this.router.navigateByUrl('/invoice');
+      },
+      error: err => {
+        this.saving.set(false);
+        this.alert.error(err.message, 'Credit note');
+      }
+    });
+  }
+
+  backtolist() {
+    this.router.navigateByUrl('/invoice');
+  }
+
+  private Chosenlines() {
+    return this.creditlines.controls
+      .map((control, index) => ({ lineindex: index, qty: Number(control.value) || 0 }))
+      .filter(x => x.qty > 0);
+  }
+
+}
@@ -0,0 +1,73 @@
+import { ComponentFixture, TestBed } from '@angular/core/testing';
+import { MAT_DIALOG_DATA, MatDialogRef } from '@angular/material/dialog';
+import { of } from 'rxjs';
+
+import { CreditoverrideComponent } from './creditoverride.component';
+import { CreditOverride } from '../../model/CreditLimit';
+import { MasterService } from '../../service/master.service';
+
+describe('CreditoverrideComponent', () => {
+  let component: CreditoverrideComponent;
+  let fixture: ComponentFixture<CreditoverrideComponent>;
+  let dialogref: jasmine.SpyObj<MatDialogRef<CreditoverrideComponent, CreditOverride>>;
+  let masterservice: jasmine.SpyObj<MasterService>;
+
+  // isAdmin is read when the component is created, so each spec sets it first
+  const create = (admin: boolean) => {
+    masterservice.isAdmin.and.returnValue(admin);
+    fixture = TestBed.createComponent(CreditoverrideComponent);
+    component = fixture.componentInstance;
+    fixture.detectChanges();
+  };
+
+  beforeEach(async () => {
+    dialogref = jasmine.createSpyObj('MatDialogRef', ['close']);
+    masterservice = jasmine.createSpyObj('MasterService', ['isAdmin', 'Verifysupervisor']);
+
+    await TestBed.configureTestingModule({
+      imports: [CreditoverrideComponent],
+      providers: [
+        { provide: MatDialogRef, useValue: dialogref },
+        { provide: MasterService, useValue: masterservice },
+        { provide: MAT_DIALOG_DATA, useValue: { check: { customerid: 'CS001', customername: 'Ravi krishna', creditlimit: 1000,
+          outstanding: 800, invoiceamount: 300, exposure: 1100, exceededby: 100 } } }
+      ]
+    })
+    .compileComponents();
+  });
+
+  it('should create', () => {
+    create(false);
+    expect(component).toBeTruthy();
+  });
+
+  it('should let an admin approve in their own session', () => {
+    localStorage.setItem('username', 'admin1');
+    create(true);
+    component.overrideform.controls.reason.setValue('  Long-standing customer  ');
+    component.ProceedOverride();
+    expect(masterservice.Verifysupervisor).not.toHaveBeenCalled();
+    expect(dialogref.close).toHaveBeenCalledWith(jasmine.objectContaining({
+      approvedby: 'admin1', reason: 'Long-standing customer', creditlimit: 1000, exposure: 1100
+    }));
+  });
+
+  it('should ask anyone else for a supervisor sign-in', () => {
+    masterservice.Verifysupervisor.and.returnValue(of({ id: 'sup1', password: 'secret', name: 'Supervisor', email: '', role: 'admin', gender: '' }));
+    create(false);
+    component.overrideform.setValue({ username: 'sup1', password: 'secret', reason: 'Paid by cheque' });
+    component.ProceedOverride();
+    expect(masterservice.Verifysupervisor).toHaveBeenCalledWith({ username: 'sup1', password: 'secret' });
+    expect(dialogref.close).toHaveBeenCalledWith(jasmine.objectContaining({ approvedby: 'sup1', reason: 'Paid by cheque' }));
+  });
+
+  it('should clear the password when the supervisor is rejected', () => {
+    masterservice.Verifysupervisor.and.returnValue(of(null));
+    create(false);
+    component.overrideform.setValue({ username: 'clerk', password: 'wrong', reason: 'Paid by cheque' });
+    component.ProceedOverride();
+    expect(dialogref.close).not.toHaveBeenCalled();
+    expect(component.overrideform.controls.password.value).toBeFalsy();
+    expect(component.errormessage()).not.toBe('');
+  });
+});
@@ -0,0 +1,85 @@
+import { Component, Inject, signal } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormBuilder, ReactiveFormsModule, Validators } from '@angular/forms';
+import { MatFormFieldModule } from '@angular/material/form-field';
+import { MatInputModule } from '@angular/material/input';
+import { MatCardModule } from '@angular/material/card';
+import { MatButtonModule } from '@angular/material/button';
+import { MAT_DIALOG_DATA, MatDialogRef } from '@angular/material/dialog';
+import { CreditCheck, CreditOverride } from '../../model/CreditLimit';
+import { MasterService } from '../../service/master.service';
+
+@Component({
+  selector: 'app-creditoverride',
+  standalone: true,
+  imports: [CommonModule, ReactiveFormsModule, MatFormFieldModule, MatInputModule, MatCardModule, MatButtonModule],
+  templateUrl: './creditoverride.component.html',
+  styleUrl: './creditoverride.component.css'
+})
+export class CreditoverrideComponent {
+
+  // an admin can approve in their own session; anyone else needs a supervisor to sign in here
+  issupervisor = this.masterservice.isAdmin();
+  errormessage = signal('');
+  verifying = signal(false);
+
+  constructor(private builder: FormBuilder, private ref: MatDialogRef<CreditoverrideComponent, CreditOverride>,
+    @Inject(MAT_DIALOG_DATA) public data: { check: CreditCheck }, private masterservice: MasterService) {
+    if (this.issupervisor) {
+      this.overrideform.controls.username.disable();
+      this.overrideform.controls.password.disable();
+    }
+  }
+
+  overrideform = this.builder.group({
+    username: this.builder.control('', Validators.required),
+    password: this.builder.control('', Validators.required),
+    reason: this.builder.control('', [Validators.required, Validators.maxLength(200)])
+  })
+
+  ProceedOverride() {
+    if (this.overrideform.invalid) {
+      this.overrideform.markAllAsTouched();
+      return;
+    }
+    if (this.issupervisor) {
+      this.Approve(localStorage.getItem('username') as string);
+      return;
+    }
+    this.errormessage.set('');
+    this.verifying.set(true);
+    this.masterservice.Verifysupervisor({
+      username: this.overrideform.value.username as string,
+      password: this.overrideform.value.password as string
+    }).subscribe({
+      next: supervisor => {
+        this.verifying.set(false);
+        if (supervisor != null) {
+          this.Approve(supervisor.id);
+        } else {
+          this.errormessage.set('Invalid credentials, or the user is not a supervisor.');
+          this.overrideform.controls.password.reset();
+        }
+      },
+      error: () => {
+        this.verifying.set(false);
+        this.errormessage.set('The supervisor could not be verified.');
+      }
+    });
+  }
+
+  closepopup() {
+    this.ref.close();
+  }
+
+  private Approve(approvedby: string) {
+    this.ref.close({
+      approvedby: approvedby,
+      approveddate: new Date(),
+      reason: (this.overrideform.value.reason as string).trim(),
+      creditlimit: this.data.check.creditlimit,
+      exposure: this.data.check.exposure
+    });
+  }
+
+}
@@ -0,0 +1,23 @@
+import { ComponentFixture, TestBed } from '@angular/core/testing';
+
+import { ImportinvoiceComponent } from './importinvoice.component';
+
+describe('ImportinvoiceComponent', () => {
+  let component: ImportinvoiceComponent;
+  let fixture: ComponentFixture<ImportinvoiceComponent>;
+
+  beforeEach(async () => {
+    await TestBed.configureTestingModule({
+      imports: [ImportinvoiceComponent]
+    })
+    .compileComponents();
+
+    fixture = TestBed.createComponent(ImportinvoiceComponent);
+    component = fixture.componentInstance;
+    fixture.detectChanges();
+  });
+
+  it('should create', () => {
+    expect(component).toBeTruthy();
+  });
+});
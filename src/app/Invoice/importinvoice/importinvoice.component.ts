@@ -0,0 +1,120 @@
+import { Component, computed, signal } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { Router } from '@angular/router';
+import { MatCardModule } from '@angular/material/card';
+import { MatButtonModule } from '@angular/material/button';
+import { MatIconModule } from '@angular/material/icon';
+import { MatStepperModule } from '@angular/material/stepper';
+import { MatDialog } from '@angular/material/dialog';
+import { ToastrService } from 'ngx-toastr';
+import { InvoiceCsvColumns, InvoiceImportGroup, InvoiceImportRequired, InvoiceImportResult } from '../../model/InvoiceImport';
+import { InvoiceTransferService } from '../../service/invoice-transfer.service';
+import { CreditCheck, CreditOverride } from '../../model/CreditLimit';
+import { CreditoverrideComponent } from '../creditoverride/creditoverride.component';
+
+@Component({
+  selector: 'app-importinvoice',
+  standalone: true,
+  imports: [CommonModule, MatCardModule, MatButtonModule, MatIconModule, MatStepperModule],
+  templateUrl: './importinvoice.component.html',
+  styleUrl: './importinvoice.component.css'
+})
+export class ImportinvoiceComponent {
+
+  columns = InvoiceCsvColumns;
+  required = InvoiceImportRequired;
+  step = signal(0);
+  filename = signal('');
+  fileerror = signal('');
+  groups = signal<InvoiceImportGroup[]>([]);
+  results = signal<InvoiceImportResult[]>([]);
+  busy = signal(false);
+
+  validcount = computed(() => this.groups().filter(x => x.invoice != null).length);
+  errorcount = computed(() => this.groups().filter(x => x.invoice == null).length);
+  importedcount = computed(() => this.results().filter(x => x.error == null).length);
+
+  constructor(private transfer: InvoiceTransferService, private router: Router, private alert: ToastrService,
+    private dialog: MatDialog) {
+
+  }
+
+  Choosefile(event: Event) {
+    let input = event.target as HTMLInputElement;
+    let file = input.files?.[0];
+    input.value = '';
+    if (file == null) {
+      return;
+    }
+    this.filename.set(file.name);
+    this.fileerror.set('');
+    file.text().then(text => {
+      let rows;
+      try {
+        rows = this.transfer.Readimport(text);
+      } catch (err: any) {
+        this.fileerror.set(err.message);
+        return;
+      }
+      if (rows.length == 0) {
+        this.fileerror.set('The file has no invoice lines.');
+        return;
+      }
+      this.busy.set(true);
+      this.transfer.Validateimport(rows).subscribe({
+        next: groups => {
+          this.busy.set(false);
+          this.groups.set(groups);
+          this.step.set(1);
+        },
+        error: () => {
+          this.busy.set(false);
+          this.fileerror.set('Customers, products and tax codes could not be loaded.');
+        }
+      });
+    });
+  }
+
+  Import() {
+    if (this.validcount() == 0) {
+      return;
+    }
+    let skipped = this.errorcount() > 0 ? ' ' + this.errorcount() + ' invoice(s) with errors will be skipped.' : '';
+    if (!confirm('Create ' + this.validcount() + ' invoice(s)?' + skipped)) {
+      return;
+    }
+    this.busy.set(true);
+    this.transfer.Importinvoices(this.groups(), check => this.Approveoverride(check)).subscribe(results => {
+      this.busy.set(false);
+      this.results.set(results);
+      this.step.set(2);
+      let failed = results.length - this.importedcount();
+      if (failed > 0) {
+        this.alert.warning(this.importedcount() + ' imported, ' + failed + ' failed', 'Import');
+      } else {
+        this.alert.success(this.importedcount() + ' invoice(s) imported', 'Import');
+      }
+    });
+  }
+
+  // Asked for each imported invoice that would be issued over its customer's credit limit
+  Approveoverride(check: CreditCheck) {
+    return this.dialog.open<CreditoverrideComponent, { check: CreditCheck }, CreditOverride>(CreditoverrideComponent, {
+      width: '50%',
+      data: { check: check }
+    }).afterClosed();
+  }
+
+  Restart() {
+    this.filename.set('');
+    this.fileerror.set('');
+    this.groups.set([]);
+    this.results.set([]);
+    this.step.set(0);
+  }
+
+  Backtolist() {
+    this.router.navigateByUrl('/invoice');
+  }
+
+}
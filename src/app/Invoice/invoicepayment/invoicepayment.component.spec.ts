@@ -0,0 +1,40 @@
+import { ComponentFixture, TestBed } from '@angular/core/testing';
+import { provideHttpClient } from '@angular/common/http';
+import { provideHttpClientTesting } from '@angular/common/http/testing';
+import { provideMockStore } from '@ngrx/store/testing';
+import { MAT_DIALOG_DATA, MatDialogRef } from '@angular/material/dialog';
+import { provideToastr } from 'ngx-toastr';
+
+import { InvoicepaymentComponent } from './invoicepayment.component';
+
+describe('InvoicepaymentComponent', () => {
+  let component: InvoicepaymentComponent;
+  let fixture: ComponentFixture<InvoicepaymentComponent>;
+
+  beforeEach(async () => {
+    await TestBed.configureTestingModule({
+      imports: [InvoicepaymentComponent],
+      providers: [
+        provideHttpClient(),
+        provideHttpClientTesting(),
+        provideMockStore(),
+        provideToastr(),
+        { provide: MatDialogRef, useValue: { close: () => {} } },
+        { provide: MAT_DIALOG_DATA, useValue: { invoice: { id: 1, nettotal: 100, paidamount: 40, status: 'Issued', products: [] } } }
+      ]
+    })
+    .compileComponents();
+
+    fixture = TestBed.createComponent(InvoicepaymentComponent);
+    component = fixture.componentInstance;
+    fixture.detectChanges();
+  });
+
+  it('should create', () => {
+    expect(component).toBeTruthy();
+  });
+
+  it('should default the amount to the outstanding balance', () => {
+    expect(component.paymentform.value.amount).toBe(60);
+  });
+});
@@ -0,0 +1,153 @@
+import { Component, Inject, OnInit, signal } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormBuilder, ReactiveFormsModule, Validators } from '@angular/forms';
+import { MatFormFieldModule } from '@angular/material/form-field';
+import { MatInputModule } from '@angular/material/input';
+import { MatSelectModule } from '@angular/material/select';
+import { MatDatepickerModule } from '@angular/material/datepicker';
+import { MatCardModule } from '@angular/material/card';
+import { MatButtonModule } from '@angular/material/button';
+import { MatIconModule } from '@angular/material/icon';
+import { provideNativeDateAdapter } from '@angular/material/core';
+import { MAT_DIALOG_DATA, MatDialogRef } from '@angular/material/dialog';
+import { RouterLink } from '@angular/router';
+import { ToastrService } from 'ngx-toastr';
+import { Store } from '@ngrx/store';
+import { Observable, of, switchMap, tap, throwError } from 'rxjs';
+import { Invoice, InvoiceStatus } from '../../model/Invoice';
+import { AccountPayment, AccountPaymentMode, Payment, PaymentModes } from '../../model/Payment';
+import { InvoiceService } from '../../service/invoice.service';
+import { Account, AccountStatus } from '../../banking/models/account.model';
+import { AccountService } from '../../banking/services/account.service';
+import { reverseTransactionSuccess, withdrawFailure, withdrawSuccess } from '../../banking/store/transaction.actions';
+
+@Component({
+  selector: 'app-invoicepayment',
+  standalone: true,
+  providers: [provideNativeDateAdapter()],
+  imports: [CommonModule, ReactiveFormsModule, MatFormFieldModule, MatInputModule, MatSelectModule,
+    MatDatepickerModule, MatCardModule, MatButtonModule, MatIconModule, RouterLink],
+  templateUrl: './invoicepayment.component.html',
+  styleUrl: './invoicepayment.component.css'
+})
+export class InvoicepaymentComponent implements OnInit {
+
+  invoice = signal<Invoice>(this.data.invoice);
+  payments = signal<Payment[]>([]);
+  saving = signal(false);
+  paymentModes = [...PaymentModes, AccountPaymentMode];
+  AccountPaymentMode = AccountPaymentMode;
+  accountList = signal<Account[]>([]);
+
+  constructor(private builder: FormBuilder, private ref: MatDialogRef<InvoicepaymentComponent>,
+    @Inject(MAT_DIALOG_DATA) public data: { invoice: Invoice, payfromaccount?: boolean },
+    public service: InvoiceService, private accountService: AccountService, private alert: ToastrService,
+    private store: Store) {
+
+  }
+
+  paymentform = this.builder.group({
+    paymentdate: this.builder.control(new Date(), Validators.required),
+    amount: this.builder.control(0, [Validators.required, Validators.min(0.01)]),
+    mode: this.builder.control<string>(PaymentModes[0], Validators.required),
+    reference: this.builder.control('', [Validators.required, Validators.maxLength(50)]),
+    accountid: this.builder.control<number | null>(null)
+  })
+
+  ngOnInit(): void {
+    this.Loadpayments();
+    this.Loadaccounts();
+    // account payments take the account instead of a typed reference
+    this.paymentform.controls.mode.valueChanges.subscribe(mode => {
+      let fromaccount = mode == AccountPaymentMode;
+      this.paymentform.controls.reference.setValidators(fromaccount ? [] : [Validators.required, Validators.maxLength(50)]);
+      this.paymentform.controls.accountid.setValidators(fromaccount ? [Validators.required] : []);
+      this.paymentform.controls.reference.updateValueAndValidity();
+      this.paymentform.controls.accountid.updateValueAndValidity();
+    });
+    this.Resetform();
+  }
+
+  Loadaccounts() {
+    this.accountService.getAccountsByStatus(AccountStatus.ACTIVE).subscribe(item => {
+      this.accountList.set(item);
+    })
+  }
+
+  Isaccountpayment() {
+    return this.paymentform.value.mode == AccountPaymentMode;
+  }
+
+  Loadpayments() {
+    this.service.GetPayments(this.invoice().id).subscribe(item => {
+      this.payments.set(item);
+    })
+  }
+
+  Canpay() {
+    return this.service.Invoicestatus(this.invoice()) == InvoiceStatus.Issued;
+  }
+
+  ProceedPayment() {
+    if (this.paymentform.invalid) {
+      this.paymentform.markAllAsTouched();
+      return;
+    }
+    this.saving.set(true);
+    let request: Observable<{ invoice: Invoice }> = this.Isaccountpayment()
+      ? this.Payfromaccount(this.paymentform.value.accountid as number, Number(this.paymentform.value.amount))
+      : this.service.AddPayment(this.invoice().id, {
+        paymentdate: this.paymentform.value.paymentdate as Date,
+        amount: Number(this.paymentform.value.amount),
+        mode: this.paymentform.value.mode as string,
+        reference: (this.paymentform.value.reference as string).trim()
+      });
+    request.subscribe({
+      next: res => {
+        this.saving.set(false);
+        this.invoice.set(res.invoice);
+        this.alert.success(this.service.Invoicestatus(res.invoice) == InvoiceStatus.Paid
+          ? 'Payment recorded, invoice is fully paid.'
+          : 'Payment recorded.');
+        this.Loadpayments();
+        this.Resetform();
+      },
+      error: err => {
+        this.saving.set(false);
+        this.alert.error(err.message, 'Payment');
+      }
+    });
+  }
+
+  // The banking store hears about the withdrawal and any reversal, so balances and notifications follow
+  private Payfromaccount(accountid: number, amount: number) {
+    return this.service.PayFromAccount(this.invoice().id, accountid, amount).pipe(
+      tap(result => this.Reportbanking(result)),
+      switchMap(result => result.invoice ? of({ invoice: result.invoice }) : throwError(() => new Error(result.error)))
+    );
+  }
+
+  private Reportbanking(result: AccountPayment) {
+    if (result.withdrawal == null) {
+      this.store.dispatch(withdrawFailure({ accountId: result.accountid, error: result.error ?? '' }));
+      return;
+    }
+    this.store.dispatch(withdrawSuccess({ response: result.withdrawal }));
+    result.reversals.forEach(response => this.store.dispatch(reverseTransactionSuccess({ response })));
+  }
+
+  Resetform() {
+    this.paymentform.reset({
+      paymentdate: new Date(),
+      amount: this.service.Outstanding(this.invoice()),
+      mode: this.data.payfromaccount ? AccountPaymentMode : PaymentModes[0],
+      reference: '',
+      accountid: null
+    });
+  }
+
+  closepopup() {
+    this.ref.close();
+  }
+
+}
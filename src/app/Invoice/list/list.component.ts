@@ -1,70 +1,312 @@
-import { Component, OnInit, ViewChild } from '@angular/core';
+import { Component, OnDestroy, OnInit } from '@angular/core';
 import { MatCardModule } from '@angular/material/card';
-import { MatPaginator, MatPaginatorModule } from '@angular/material/paginator';
-import { MatSort, MatSortModule } from '@angular/material/sort';
-import { MatTableDataSource, MatTableModule } from '@angular/material/table';
-import { Products } from '../../model/Productmodel';
-import { CommonModule } from '@angular/common';
+import { MatPaginatorModule, PageEvent } from '@angular/material/paginator';
+import { MatSortModule, Sort, SortDirection } from '@angular/material/sort';
+import { MatTableModule } from '@angular/material/table';
+import { CommonModule, formatDate } from '@angular/common';
+import { FormBuilder, ReactiveFormsModule } from '@angular/forms';
 import { MatButtonModule } from '@angular/material/button';
-import { Invoice } from '../../model/Invoice';
-import { Router } from '@angular/router';
+import { MatFormFieldModule } from '@angular/material/form-field';
+import { MatInputModule } from '@angular/material/input';
+import { MatSelectModule } from '@angular/material/select';
+import { MatDatepickerModule } from '@angular/material/datepicker';
+import { provideNativeDateAdapter } from '@angular/material/core';
+import { MatDialog, MatDialogModule } from '@angular/material/dialog';
+import { Invoice, InvoiceStatus } from '../../model/Invoice';
+import { InvoiceFilter, InvoiceTotals } from '../../model/InvoiceSearch';
+import { Tax } from '../../model/Tax';
+import { ActivatedRoute, ParamMap, Router } from '@angular/router';
 import { InvoiceService } from '../../service/invoice.service';
-import { catchError, of, Subscription } from 'rxjs';
+import { InvoiceTransferService } from '../../service/invoice-transfer.service';
+import { catchError, debounceTime, Observable, of, Subscription } from 'rxjs';
+import { ToastrService } from 'ngx-toastr';
+import { CancelinvoiceComponent } from '../cancelinvoice/cancelinvoice.component';
+import { InvoicepaymentComponent } from '../invoicepayment/invoicepayment.component';
+import { CreditoverrideComponent } from '../creditoverride/creditoverride.component';
+import { CreditCheck, CreditOverride } from '../../model/CreditLimit';
 
 @Component({
   selector: 'app-list',
   standalone: true,
-  imports: [MatCardModule, MatTableModule, MatPaginatorModule, MatSortModule,
-    CommonModule, MatButtonModule],
+  providers: [provideNativeDateAdapter()],
+  imports: [MatCardModule, MatTableModule, MatPaginatorModule, MatSortModule, ReactiveFormsModule,
+    CommonModule, MatButtonModule, MatFormFieldModule, MatInputModule, MatSelectModule, MatDatepickerModule,
+    MatDialogModule],
   templateUrl: './list.component.html',
   styleUrl: './list.component.css'
 })
-export class ListComponent implements OnInit {
+export class ListComponent implements OnInit, OnDestroy {
 
-  displayedColumns: string[] = ['id', 'name', 'address', 'nettotal', 'action'];
-  dataSource!: MatTableDataSource<Invoice>;
-  @ViewChild(MatPaginator) paginator!: MatPaginator;
-  @ViewChild(MatSort) sort!: MatSort;
+  displayedColumns: string[] = ['invoiceno', 'invoicedate', 'name', 'address', 'nettotal', 'outstanding', 'status', 'action'];
+  // table column -> invoice field used for server-side sorting
+  sortFields: { [column: string]: string } = {
+    invoiceno: 'invoiceno', invoicedate: 'invoicedate', name: 'customername',
+    address: 'deliveryaddress', nettotal: 'nettotal', status: 'status'
+  };
   invoiceList: Invoice[] = []
+  count = 0;
+  totals: InvoiceTotals | null = null;
+  taxList: Tax[] = []
   subscription=new Subscription();
+  loadsubscription?: Subscription;
+  totalssubscription?: Subscription;
+  statusList = Object.values(InvoiceStatus);
+  InvoiceStatus = InvoiceStatus;
+  filter: InvoiceFilter = { page: 1, limit: 10 };
+  sortActive = '';
+  sortDirection: SortDirection = '';
 
-  constructor(private router: Router, private service: InvoiceService) {
+  filterform = this.builder.group({
+    q: this.builder.control(''),
+    status: this.builder.control(''),
+    taxcode: this.builder.control(''),
+    fromdate: this.builder.control<Date | null>(null),
+    todate: this.builder.control<Date | null>(null),
+    // A cleared number input reports an empty string
+    minamount: this.builder.control<number | string | null>(null),
+    maxamount: this.builder.control<number | string | null>(null)
+  })
+
+  constructor(private router: Router, private activeroute: ActivatedRoute, private service: InvoiceService,
+    private builder: FormBuilder, private dialog: MatDialog, private alert: ToastrService,
+    private transfer: InvoiceTransferService) {
 
   }
   ngOnInit(): void {
-    this.Loadinvoice();
+    this.service.Getalltaxes().subscribe(item => {
+      this.taxList = item;
+    })
+
+    // the URL query string is the source of truth, so filtered views can be bookmarked and shared
+    // paging and sorting only reload the page; the totals follow the filter
+    let sub3 = this.activeroute.queryParamMap.subscribe(params => {
+      let previous = this.totals ? this.Filterkey(this.filter) : null;
+      this.Readfilter(params);
+      this.Loadinvoice();
+      if (this.Filterkey(this.filter) != previous) {
+        this.Loadtotals();
+      }
+    });
+    this.subscription.add(sub3)
+
+    let sub4 = this.filterform.valueChanges.pipe(debounceTime(400)).subscribe(() => {
+      this.Navigate({ ...this.Formfilter(), page: 1 });
+    });
+    this.subscription.add(sub4)
+  }
+
+  ngOnDestroy(): void {
+    this.subscription.unsubscribe();
+    this.loadsubscription?.unsubscribe();
+    this.totalssubscription?.unsubscribe();
   }
 
   Createinvoice() {
     this.router.navigateByUrl('/createinvoice')
   }
+  Importinvoice() {
+    this.router.navigateByUrl('/invoice/import')
+  }
+  Exportcsv() {
+    this.Export(invoices => this.transfer.Exportcsv(invoices));
+  }
+  Exportjson() {
+    this.Export(invoices => this.transfer.Exportjson(invoices));
+  }
+  PrintInvoice(id: any) {
+    this.router.navigateByUrl('/invoice/' + id + '/print');
+  }
+  CreditNote(id: any) {
+    this.router.navigateByUrl('/invoice/' + id + '/creditnote');
+  }
   EditInvoice(id: any) {
     this.router.navigateByUrl('/editinvoice/' + id);
   }
-  DeleteInvoice(id: any) {
-    if (confirm('Do you want to remove?')) {
-      let sub2 = this.service.DeleteInvoice(id).subscribe(item => {
-        alert('Removed successfully.')
-        this.Loadinvoice();
-      });
-      this.subscription.add(sub2)
+  IssueInvoice(invoice: Invoice) {
+    if (confirm('Issue invoice ' + invoice.invoiceno + '? It can no longer be edited once issued.')) {
+      this.Runstatuschange(this.service.IssueInvoice(invoice, check => this.Approveoverride(check)), 'Invoice issued.');
     }
   }
+  Approveoverride(check: CreditCheck) {
+    return this.dialog.open<CreditoverrideComponent, { check: CreditCheck }, CreditOverride>(CreditoverrideComponent, {
+      width: '50%',
+      data: { check: check }
+    }).afterClosed();
+  }
+  Openpayments(invoice: Invoice, payfromaccount = false) {
+    this.dialog.open(InvoicepaymentComponent, {
+      width: '50%',
+      data: { invoice: invoice, payfromaccount: payfromaccount }
+    }).afterClosed().subscribe(() => {
+      this.Loadinvoice();
+      this.Loadtotals();
+    });
+  }
+  CancelInvoice(invoice: Invoice) {
+    this.dialog.open(CancelinvoiceComponent, {
+      width: '40%',
+      data: { invoice: invoice }
+    }).afterClosed().subscribe(reason => {
+      if (reason) {
+        this.Runstatuschange(this.service.CancelInvoice(invoice, reason), 'Invoice cancelled.');
+      }
+    });
+  }
 
+  Status(invoice: Invoice) {
+    return this.service.Invoicestatus(invoice);
+  }
+  Outstanding(invoice: Invoice) {
+    return this.service.Outstanding(invoice);
+  }
+  Canchange(invoice: Invoice, status: InvoiceStatus) {
+    return this.service.Canchangestatus(invoice, status);
+  }
+
+  private Runstatuschange(request: Observable<Invoice>, message: string) {
+    let sub2 = request.subscribe({
+      next: () => {
+        this.alert.success(message);
+        this.Loadinvoice();
+        this.Loadtotals();
+      },
+      error: err => {
+        this.alert.error(err.message, 'Invoice');
+      }
+    });
+    this.subscription.add(sub2)
+  }
+
+
+  Pagechange(event: PageEvent) {
+    this.Navigate({ page: event.pageIndex + 1, limit: event.pageSize });
+  }
+
+  Sortchange(sort: Sort) {
+    this.Navigate({
+      sort: sort.direction ? this.sortFields[sort.active] : undefined,
+      order: sort.direction || undefined,
+      page: 1
+    });
+  }
+
+  Clearfilter() {
+    this.filterform.reset({ q: '', status: '', taxcode: '', fromdate: null, todate: null, minamount: null, maxamount: null });
+  }
 
   Loadinvoice() {
-    let sub1 = this.service.GetAllInvoice().pipe(
+    // a newer filter replaces any search still in flight
+    this.loadsubscription?.unsubscribe();
+    this.loadsubscription = this.service.SearchInvoices(this.filter).pipe(
+      catchError(err => {
+        console.log(err.message);
+        return of({ invoices: [], count: 0 })
+      })
+    ).subscribe(item => {
+      this.invoiceList = item.invoices;
+      this.count = item.count;
+    })
+  }
+
+  Loadtotals() {
+    this.totalssubscription?.unsubscribe();
+    this.totalssubscription = this.service.GetInvoiceTotals(this.filter).pipe(
       catchError(err => {
         console.log(err.message);
-        return of([])
+        return of(null)
       })
     ).subscribe(item => {
-      this.invoiceList = item;
-      this.dataSource = new MatTableDataSource(this.invoiceList);
-      this.dataSource.paginator = this.paginator;
-      this.dataSource.sort = this.sort;
+      this.totals = item;
     })
   }
 
+  // exports every invoice matching the current filter, not only the page on screen
+  private Export(write: (invoices: Invoice[]) => void) {
+    this.service.GetFilteredInvoices(this.filter).subscribe({
+      next: invoices => {
+        if (invoices.length == 0) {
+          this.alert.warning('No invoices match the current filter', 'Export');
+          return;
+        }
+        write(invoices);
+      },
+      error: err => this.alert.error(err.message, 'Export failed')
+    });
+  }
+
+  private Navigate(changes: Partial<InvoiceFilter>) {
+    let _filter: InvoiceFilter = { ...this.filter, ...changes };
+    this.router.navigate([], {
+      relativeTo: this.activeroute,
+      replaceUrl: true,
+      queryParams: {
+        q: _filter.q || null,
+        status: _filter.status || null,
+        taxcode: _filter.taxcode || null,
+        from: _filter.fromdate || null,
+        to: _filter.todate || null,
+        min: _filter.minamount ?? null,
+        max: _filter.maxamount ?? null,
+        page: _filter.page > 1 ? _filter.page : null,
+        limit: _filter.limit != 10 ? _filter.limit : null,
+        sort: _filter.sort || null,
+        order: _filter.sort ? _filter.order : null
+      }
+    });
+  }
+
+  private Readfilter(params: ParamMap) {
+    let _number = (name: string) => {
+      let value = params.get(name);
+      return value == null || value == '' || isNaN(Number(value)) ? null : Number(value);
+    };
+    this.filter = {
+      q: params.get('q') ?? '',
+      status: params.get('status') ?? '',
+      taxcode: params.get('taxcode') ?? '',
+      fromdate: params.get('from') ?? '',
+      todate: params.get('to') ?? '',
+      minamount: _number('min'),
+      maxamount: _number('max'),
+      page: _number('page') ?? 1,
+      limit: _number('limit') ?? 10,
+      sort: params.get('sort') ?? undefined,
+      order: params.get('order') == 'desc' ? 'desc' : 'asc'
+    };
+    this.sortActive = Object.keys(this.sortFields).find(x => this.sortFields[x] == this.filter.sort) ?? '';
+    this.sortDirection = this.filter.sort ? this.filter.order ?? 'asc' : '';
+    this.filterform.setValue({
+      q: this.filter.q ?? '',
+      status: this.filter.status ?? '',
+      taxcode: this.filter.taxcode ?? '',
+      fromdate: this.filter.fromdate ? new Date(this.filter.fromdate + 'T00:00:00') : null,
+      todate: this.filter.todate ? new Date(this.filter.todate + 'T00:00:00') : null,
+      minamount: this.filter.minamount ?? null,
+      maxamount: this.filter.maxamount ?? null
+    }, { emitEvent: false });
+  }
+
+  // the filter without its paging and sorting
+  private Filterkey(filter: InvoiceFilter) {
+    let { page, limit, sort, order, ...rest } = filter;
+    return JSON.stringify(rest);
+  }
+
+  private Formfilter(): Partial<InvoiceFilter> {
+    let value = this.filterform.value;
+    let _day = (date: Date | null | undefined) => date ? formatDate(date, 'yyyy-MM-dd', 'en-US') : '';
+    let _amount = (amount: number | string | null | undefined) =>
+      amount == null || amount === '' || isNaN(Number(amount)) ? null : Number(amount);
+    return {
+      q: (value.q ?? '').trim(),
+      status: value.status ?? '',
+      taxcode: value.taxcode ?? '',
+      fromdate: _day(value.fromdate),
+      todate: _day(value.todate),
+      minamount: _amount(value.minamount),
+      maxamount: _amount(value.maxamount)
+    };
+  }
+
 
 }
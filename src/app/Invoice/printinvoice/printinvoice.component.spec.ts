@@ -0,0 +1,23 @@
+import { ComponentFixture, TestBed } from '@angular/core/testing';
+
+import { PrintinvoiceComponent } from './printinvoice.component';
+
+describe('PrintinvoiceComponent', () => {
+  let component: PrintinvoiceComponent;
+  let fixture: ComponentFixture<PrintinvoiceComponent>;
+
+  beforeEach(async () => {
+    await TestBed.configureTestingModule({
+      imports: [PrintinvoiceComponent]
+    })
+    .compileComponents();
+
+    fixture = TestBed.createComponent(PrintinvoiceComponent);
+    component = fixture.componentInstance;
+    fixture.detectChanges();
+  });
+
+  it('should create', () => {
+    expect(component).toBeTruthy();
+  });
+});
@@ -0,0 +1,167 @@
+import { Component, OnInit, computed, signal } from '@angular/core';
+import { CommonModule, formatDate } from '@angular/common';
+import { ActivatedRoute, Router } from '@angular/router';
+import { MatCardModule } from '@angular/material/card';
+import { MatButtonModule } from '@angular/material/button';
+import { MatIconModule } from '@angular/material/icon';
+import { catchError, of } from 'rxjs';
+import { jsPDF } from 'jspdf';
+import autoTable, { RowInput } from 'jspdf-autotable';
+import { InvoiceService } from '../../service/invoice.service';
+import { Invoice } from '../../model/Invoice';
+import { Associate } from '../../model/customer';
+import { PricingService } from '../../service/pricing.service';
+
+@Component({
+  selector: 'app-printinvoice',
+  standalone: true,
+  imports: [CommonModule, MatCardModule, MatButtonModule, MatIconModule],
+  templateUrl: './printinvoice.component.html',
+  styleUrl: './printinvoice.component.css'
+})
+export class PrintinvoiceComponent implements OnInit {
+
+  invoice = signal<Invoice | null>(null);
+  customer = signal<Associate | null>(null);
+  notfound = signal(false);
+  // lines priced at their stored rates, for the tax breakdown
+  priced = computed(() => {
+    let _invoice = this.invoice();
+    return _invoice == null ? null : this.pricing.Calculate(_invoice.products, this.service.Defaulttaxrate(_invoice));
+  });
+
+  constructor(private router: Router, private activeroute: ActivatedRoute,
+    private service: InvoiceService, private pricing: PricingService) {
+
+  }
+
+  ngOnInit(): void {
+    let invoiceno = this.activeroute.snapshot.paramMap.get('id') as string;
+    this.Loadinvoice(invoiceno);
+  }
+
+  Loadinvoice(invoiceno: any) {
+    this.service.GetInvoicebyCode(invoiceno).pipe(
+      catchError(err => {
+        console.log(err.message);
+        return of(null)
+      })
+    ).subscribe(item => {
+      if (item == null) {
+        this.notfound.set(true);
+        return;
+      }
+      this.invoice.set(item);
+      this.service.Getcustomer(item.customerid).pipe(
+        catchError(() => of(null))
+      ).subscribe(cust => this.customer.set(cust));
+    })
+  }
+
+  Printinvoice() {
+    window.print();
+  }
+
+  backtolist() {
+    this.router.navigateByUrl('/invoice');
+  }
+
+  Outstanding() {
+    let _invoice = this.invoice();
+    return _invoice == null ? 0 : this.service.Outstanding(_invoice);
+  }
+
+  // Prices come back from json-server as strings for older invoices
+  Lineprice(price: any): number {
+    return Number(price) || 0;
+  }
+
+  Downloadpdf() {
+    let _invoice = this.invoice();
+    if (_invoice == null) {
+      return;
+    }
+    let doc = new jsPDF({ unit: 'pt', format: 'a4' });
+    let right = doc.internal.pageSize.getWidth() - 40;
+
+    doc.setFontSize(18);
+    doc.text('INVOICE', 40, 50);
+    doc.setFontSize(10);
+    doc.text('Invoice No: ' + (_invoice.invoiceno ?? _invoice.id), right, 45, { align: 'right' });
+    doc.text('Date: ' + this.Formatday(_invoice.invoicedate), right, 60, { align: 'right' });
+    doc.text('Status: ' + (_invoice.status ?? 'Draft'), right, 75, { align: 'right' });
+
+    doc.setFontSize(11);
+    doc.text('Bill To', 40, 85);
+    doc.setFontSize(10);
+    doc.text(_invoice.customername + ' (' + _invoice.customerid + ')', 40, 100);
+    doc.text(doc.splitTextToSize('Deliver To: ' + (_invoice.deliveryaddress || '-'), 300), 40, 115);
+
+    autoTable(doc, {
+      startY: 145,
+      head: [['Sl.No', 'Product', 'Tax', 'Qty', 'Price (INR)', 'Total (INR)']],
+      body: _invoice.products.map((line, i) => [
+        (i + 1).toString(),
+        line.name,
+        this.priced()!.lines[i].taxcode,
+        line.qty.toString(),
+        this.Formatamount(this.Lineprice(line.price)),
+        this.Formatamount(line.total)
+      ]),
+      columnStyles: {
+        3: { halign: 'right' },
+        4: { halign: 'right' },
+        5: { halign: 'right' }
+      },
+      headStyles: { fillColor: [63, 81, 181] }
+    });
+
+    autoTable(doc, {
+      head: [['Tax Code', 'Tax Type', 'Tax %', 'Taxable (INR)', 'Tax (INR)']],
+      body: this.priced()!.breakdown.map(x => [
+        x.taxcode,
+        x.taxtype,
+        x.taxperc.toString(),
+        this.Formatamount(x.taxable),
+        this.Formatamount(x.tax)
+      ]),
+      columnStyles: {
+        2: { halign: 'right' },
+        3: { halign: 'right' },
+        4: { halign: 'right' }
+      },
+      theme: 'grid'
+    });
+
+    let totals: RowInput[] = [
+      ['Total', this.Formatamount(_invoice.total)],
+      ['Tax', this.Formatamount(_invoice.tax)],
+      [{ content: 'Net Total (INR)', styles: { fontStyle: 'bold' } },
+       { content: this.Formatamount(_invoice.nettotal), styles: { fontStyle: 'bold' } }]
+    ];
+    if (_invoice.paidamount || _invoice.creditedamount) {
+      totals.push(['Paid', this.Formatamount(_invoice.paidamount ?? 0)]);
+      totals.push(['Credited', this.Formatamount(_invoice.creditedamount ?? 0)]);
+      totals.push([{ content: 'Balance Due (INR)', styles: { fontStyle: 'bold' } },
+        { content: this.Formatamount(this.Outstanding()), styles: { fontStyle: 'bold' } }]);
+    }
+    autoTable(doc, {
+      body: totals,
+      tableWidth: 220,
+      margin: { left: right - 220 },
+      columnStyles: { 1: { halign: 'right' } },
+      theme: 'plain'
+    });
+
+    doc.save('invoice-' + (_invoice.invoiceno ?? _invoice.id.toString()).replace(/\//g, '-') + '.pdf');
+  }
+
+  private Formatday(date: Date | string): string {
+    return formatDate(date, 'dd-MMM-yyyy', 'en-US');
+  }
+
+  private Formatamount(amount: number): string {
+    return this.pricing.Round(amount).toFixed(2);
+  }
+
+}
@@ -14,6 +14,9 @@ import { ProductReducer } from './_store/Product.Reducer';
 import { ProductEffect } from './_store/Product.Effects';
 import { AccountEffects } from './banking/store/account.effects';
 import { AccountReducer } from './banking/store/account.reducer';
+import { TransactionEffects } from './banking/store/transaction.effects';
+import { NotificationEffects } from './banking/store/notification.effects';
+import { TransactionReducer } from './banking/store/transaction.reducer';
 
 
 
@@ -22,7 +25,8 @@ export const appConfig: ApplicationConfig = {
     provideAnimationsAsync(), provideHttpClient(withInterceptors([tokenInterceptor])), provideToastr({ closeButton: true, preventDuplicates: true }),
      provideStore({
   'accounts': AccountReducer,
+  'transactions': TransactionReducer,
   'product': ProductReducer  // Keep if still needed
-}), provideEffects([ProductEffect,AccountEffects]), provideStoreDevtools({ maxAge: 25, logOnly: !isDevMode() }),
+}), provideEffects([ProductEffect,AccountEffects,TransactionEffects,NotificationEffects]), provideStoreDevtools({ maxAge: 25, logOnly: !isDevMode() }),
      provideEnvironmentNgxMask()]
 };
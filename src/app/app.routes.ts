@@ -2,12 +2,10 @@ import { Routes } from '@angular/router';
 import { HomeComponent } from './home/home.component';
 import { AboutComponent } from './common/about/about.component';
 import { ContactComponent } from './common/contact/contact.component';
-import { CustomerComponent } from './common/customer/customer.component';
-import { AddComponent } from './common/add/add.component';
 import { StatusComponent } from './common/status/status.component';
 import { authGuard } from './Guard/auth.guard';
-import { childauthGuard } from './Guard/childauth.guard';
 import { authdGuard } from './Guard/authd.guard';
+import { adminGuard } from './Guard/admin.guard';
 import { LoginComponent } from './common/login/login.component';
 import { RegisterComponent } from './common/register/register.component';
 import { ProductComponent } from './common/product/product.component';
@@ -16,9 +14,21 @@ import { NewproductComponent } from './common/newproduct/newproduct.component';
 import { MaskComponent } from './common/mask/mask.component';
 import { ListComponent } from './Invoice/list/list.component';
 import { AddinvoiceComponent } from './Invoice/addinvoice/addinvoice.component';
+import { PrintinvoiceComponent } from './Invoice/printinvoice/printinvoice.component';
+import { ImportinvoiceComponent } from './Invoice/importinvoice/importinvoice.component';
+import { CreditnoteComponent } from './Invoice/creditnote/creditnote.component';
+import { CustomerlistComponent } from './Customer/customerlist/customerlist.component';
+import { AddcustomerComponent } from './Customer/addcustomer/addcustomer.component';
 import { AccountListComponent } from './banking/components/account-list/account-list.component';
 import { AccountCreateComponent } from './banking/components/account-create/account-create.component';
 import { AccountDetailsComponent } from './banking/components/account-details/account-details.component';
+import { TransactionPanelComponent } from './banking/components/transaction-panel/transaction-panel.component';
+import { TransactionHistoryComponent } from './banking/components/transaction-history/transaction-history.component';
+import { NotificationPreferencesComponent } from './banking/components/notification-preferences/notification-preferences.component';
+import { MonthEndComponent } from './banking/components/month-end/month-end.component';
+import { TransferComponent } from './banking/components/transfer/transfer.component';
+import { ReconciliationComponent } from './banking/components/reconciliation/reconciliation.component';
+import { StatementComponent } from './banking/components/statement/statement.component';
 
 export const routes: Routes = [
     // ============================================================================
@@ -58,21 +68,20 @@ export const routes: Routes = [
     },
     {
         path: 'customer', 
-        component: CustomerComponent,
+        component: CustomerlistComponent,
+        canActivate: [authGuard]
+    },
+    {
+        path: 'customer/add', 
+        component: AddcustomerComponent,
         canActivate: [authGuard],
-        canActivateChild: [childauthGuard],
-        canDeactivate: [authdGuard],
-        children: [
-            {
-                path: 'add', 
-                component: AddComponent, 
-                canActivate: [authGuard]
-            },
-            {
-                path: 'edit/:id', 
-                component: AddComponent
-            }
-        ]
+        canDeactivate: [authdGuard]
+    },
+    {
+        path: 'customer/edit/:id', 
+        component: AddcustomerComponent,
+        canActivate: [authGuard],
+        canDeactivate: [authdGuard]
     },
     {
         path: 'product', 
@@ -99,6 +108,11 @@ export const routes: Routes = [
         component: ListComponent,
         canActivate: [authGuard]
     },
+    {
+        path: 'invoice/import', 
+        component: ImportinvoiceComponent,
+        canActivate: [authGuard]
+    },
     {
         path: 'createinvoice', 
         component: AddinvoiceComponent,
@@ -109,6 +123,16 @@ export const routes: Routes = [
         component: AddinvoiceComponent,
         canActivate: [authGuard]
     },
+    {
+        path: 'invoice/:id/print', 
+        component: PrintinvoiceComponent,
+        canActivate: [authGuard]
+    },
+    {
+        path: 'invoice/:id/creditnote', 
+        component: CreditnoteComponent,
+        canActivate: [authGuard]
+    },
 
     // ============================================================================
     // BANKING ROUTES (Protected)
@@ -136,6 +160,65 @@ export const routes: Routes = [
                 path: 'account/:id',
                 component: AccountDetailsComponent,
                 title: 'Account Details - Banking App'
+            },
+            {
+                path: 'account/:id/notifications',
+                component: NotificationPreferencesComponent,
+                title: 'Notification Settings - Banking App'
+            },
+            {
+                path: 'deposit/:id',
+                component: TransactionPanelComponent,
+                data: { mode: 'deposit' },
+                title: 'Deposit - Banking App'
+            },
+            {
+                path: 'withdraw/:id',
+                component: TransactionPanelComponent,
+                data: { mode: 'withdraw' },
+                title: 'Withdraw - Banking App'
+            },
+            {
+                path: 'transfer',
+                component: TransferComponent,
+                title: 'Transfer Funds - Banking App'
+            },
+            {
+                path: 'transfer/:id',
+                component: TransferComponent,
+                title: 'Transfer Funds - Banking App'
+            },
+            {
+                path: 'transactions',
+                component: TransactionHistoryComponent,
+                title: 'Transactions - Banking App'
+            },
+            {
+                path: 'transactions/:id',
+                component: TransactionHistoryComponent,
+                title: 'Transaction History - Banking App'
+            },
+            {
+                path: 'statements',
+                component: StatementComponent,
+                title: 'Statements - Banking App'
+            },
+            {
+                path: 'statements/:id',
+                component: StatementComponent,
+                title: 'Statements - Banking App'
+            },
+            {
+                path: 'admin/month-end',
+                component: MonthEndComponent,
+                canActivate: [adminGuard],
+                title: 'Month-End Processing - Banking App'
+            },
+            {
+                path: 'admin/reconciliation',
+                component: ReconciliationComponent,
+                canActivate: [adminGuard],
+                title: 'Ledger Reconciliation - Banking App'
             }
         ]
     },
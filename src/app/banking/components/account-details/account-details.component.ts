@@ -1,7 +1,8 @@
 // src/app/banking/components/account-details/account-details.component.ts
 
-import { Component, OnInit, OnDestroy } from '@angular/core';
+import { Component, OnInit, OnDestroy, signal } from '@angular/core';
 import { CommonModule } from '@angular/common';
+import { FormControl, ReactiveFormsModule, Validators } from '@angular/forms';
 import { ActivatedRoute, Router } from '@angular/router';
 import { MatCardModule } from '@angular/material/card';
 import { MatButtonModule } from '@angular/material/button';
@@ -13,17 +14,40 @@ import { MatListModule } from '@angular/material/list';
 import { MatProgressSpinnerModule } from '@angular/material/progress-spinner';
 import { MatTableModule } from '@angular/material/table';
 import { MatTooltipModule } from '@angular/material/tooltip';
+import { MatFormFieldModule } from '@angular/material/form-field';
+import { MatInputModule } from '@angular/material/input';
+import { MatDialog, MatDialogModule } from '@angular/material/dialog';
 import { Store } from '@ngrx/store';
-import { Observable, Subscription } from 'rxjs';
-import { Account, AccountType, AccountStatus, ACCOUNT_RULES } from '../../models/account.model';
-import { loadAccount, deleteAccount, checkBalance } from '../../store/account.actions';
+import { Observable, Subscription, of } from 'rxjs';
+import { catchError, distinctUntilChanged, filter, switchMap } from 'rxjs/operators';
+import {
+  Account,
+  AccountType,
+  AccountStatus,
+  AccountStatusChange,
+  OverdraftUsage,
+  ACCOUNT_RULES
+} from '../../models/account.model';
+import { AccountService } from '../../services/account.service';
+import { MasterService } from '../../../service/master.service';
+import { getOverdraftUsage } from '../../store/account.state';
+import {
+  loadAccount,
+  closeAccount,
+  checkBalance,
+  suspendAccount,
+  reactivateAccount
+} from '../../store/account.actions';
 import { selectSelectedAccount, selectAccountsLoading, selectAccountError } from '../../store/account.selectors';
+import { NotificationBannerComponent } from '../notification-banner/notification-banner.component';
+import { CloseAccountDialogComponent, CloseAccountDialogData } from '../close-account-dialog/close-account-dialog.component';
 
 @Component({
   selector: 'app-account-details',
   standalone: true,
   imports: [
     CommonModule,
+    ReactiveFormsModule,
     MatCardModule,
     MatButtonModule,
     MatIconModule,
@@ -33,7 +57,11 @@ import { selectSelectedAccount, selectAccountsLoading, selectAccountError } from
     MatListModule,
     MatProgressSpinnerModule,
     MatTableModule,
-    MatTooltipModule
+    MatTooltipModule,
+    MatFormFieldModule,
+    MatInputModule,
+    MatDialogModule,
+    NotificationBannerComponent
   ],
   templateUrl: './account-details.component.html',
   styleUrl: './account-details.component.css'
@@ -47,13 +75,22 @@ export class AccountDetailsComponent implements OnInit, OnDestroy {
   accountRules = ACCOUNT_RULES;
   AccountType = AccountType;
   AccountStatus = AccountStatus;
+
+  statusReason = new FormControl('', {
+    nonNullable: true,
+    validators: [Validators.required, Validators.maxLength(200)]
+  });
+  statusHistory = signal<AccountStatusChange[]>([]);
   
   private subscription = new Subscription();
 
   constructor(
     private store: Store,
     private route: ActivatedRoute,
-    private router: Router
+    private router: Router,
+    private accountService: AccountService,
+    private masterService: MasterService,
+    private dialog: MatDialog
   ) {
     this.account$ = this.store.select(selectSelectedAccount);
     this.loading$ = this.store.select(selectAccountsLoading);
@@ -70,6 +107,20 @@ export class AccountDetailsComponent implements OnInit, OnDestroy {
     });
     
     this.subscription.add(routeSub);
+
+    // Reload the status history whenever the shown account or its status changes
+    const historySub = this.account$.pipe(
+      filter((account): account is Account => !!account),
+      distinctUntilChanged((a, b) => a.id === b.id && a.status === b.status),
+      switchMap(account => this.accountService.getStatusHistory(account.id).pipe(
+        catchError(() => of([]))
+      ))
+    ).subscribe(history => {
+      this.statusHistory.set(history);
+      this.statusReason.reset();
+    });
+
+    this.subscription.add(historySub);
   }
 
   ngOnDestroy(): void {
@@ -84,6 +135,10 @@ export class AccountDetailsComponent implements OnInit, OnDestroy {
     return type === AccountType.SAVINGS ? 'savings' : 'business';
   }
 
+  getAccountTypeColor(type: AccountType): string {
+    return type === AccountType.SAVINGS ? 'primary' : 'accent';
+  }
+
   getStatusColor(status: AccountStatus): string {
     switch (status) {
       case AccountStatus.ACTIVE:
@@ -130,6 +185,10 @@ export class AccountDetailsComponent implements OnInit, OnDestroy {
     return account.balance;
   }
 
+  getOverdraftUsage(account: Account): OverdraftUsage {
+    return getOverdraftUsage(account);
+  }
+
   refreshBalance(): void {
     if (this.accountId) {
       this.store.dispatch(checkBalance({ accountId: this.accountId }));
@@ -140,6 +199,14 @@ export class AccountDetailsComponent implements OnInit, OnDestroy {
     this.router.navigateByUrl(`/banking/transactions/${account.id}`);
   }
 
+  navigateToNotificationSettings(account: Account): void {
+    this.router.navigateByUrl(`/banking/account/${account.id}/notifications`);
+  }
+
+  navigateToStatements(account: Account): void {
+    this.router.navigateByUrl(`/banking/statements/${account.id}`);
+  }
+
   navigateToDeposit(account: Account): void {
     this.router.navigateByUrl(`/banking/deposit/${account.id}`);
   }
@@ -148,11 +215,46 @@ export class AccountDetailsComponent implements OnInit, OnDestroy {
     this.router.navigateByUrl(`/banking/withdraw/${account.id}`);
   }
 
+  navigateToTransfer(account: Account): void {
+    this.router.navigateByUrl(`/banking/transfer/${account.id}`);
+  }
+
   closeAccount(account: Account): void {
-    if (confirm(`Are you sure you want to close account ${account.accountNumber}? This action cannot be undone.`)) {
-      this.store.dispatch(deleteAccount({ accountId: account.id }));
-      this.router.navigateByUrl('/banking/accounts');
+    this.dialog.open<CloseAccountDialogComponent, CloseAccountDialogData, string>(CloseAccountDialogComponent, {
+      width: '480px',
+      data: { account }
+    }).afterClosed().subscribe(reason => {
+      if (reason) {
+        this.store.dispatch(closeAccount({ request: { accountId: account.id, reason } }));
+        this.router.navigateByUrl('/banking/accounts');
+      }
+    });
+  }
+
+  isAdmin(): boolean {
+    return this.masterService.isAdmin();
+  }
+
+  suspendAccount(account: Account): void {
+    if (this.statusReason.invalid) {
+      this.statusReason.markAsTouched();
+      return;
+    }
+    if (confirm(`Suspend account ${account.accountNumber}? All transactions will be blocked until it is reactivated.`)) {
+      this.store.dispatch(suspendAccount({
+        request: { accountId: account.id, reason: this.statusReason.value }
+      }));
+    }
+  }
+
+  reactivateAccount(account: Account): void {
+    if (this.statusReason.invalid) {
+      this.statusReason.markAsTouched();
+      return;
     }
+    this.store.dispatch(reactivateAccount({
+      request: { accountId: account.id, reason: this.statusReason.value }
+    }));
   }
 
   goBack(): void {
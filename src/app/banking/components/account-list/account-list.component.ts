@@ -12,12 +12,14 @@ import { MatChipsModule } from '@angular/material/chips';
 import { MatInputModule } from '@angular/material/input';
 import { MatProgressSpinner, MatProgressSpinnerModule } from '@angular/material/progress-spinner';
 import { MatFormFieldModule } from '@angular/material/form-field';
+import { MatDialog, MatDialogModule } from '@angular/material/dialog';
 import { Router } from '@angular/router';
 import { Store } from '@ngrx/store';
 import { Observable, Subscription } from 'rxjs';
 import { Account, AccountStatus, AccountType } from '../../models/account.model';
-import { loadAccounts, deleteAccount } from '../../store/account.actions';
+import { loadAccounts, closeAccount } from '../../store/account.actions';
 import { selectAllAccounts, selectAccountsLoading } from '../../store/account.selectors';
+import { CloseAccountDialogComponent, CloseAccountDialogData } from '../close-account-dialog/close-account-dialog.component';
 
 @Component({
   selector: 'app-account-list',
@@ -33,6 +35,7 @@ import { selectAllAccounts, selectAccountsLoading } from '../../store/account.se
     MatChipsModule,
     MatInputModule,
     MatFormFieldModule,
+    MatDialogModule,
     MatProgressSpinner
   ],
   templateUrl: './account-list.component.html',
@@ -60,7 +63,8 @@ export class AccountListComponent implements OnInit, OnDestroy {
 
   constructor(
     private store: Store,
-    private router: Router
+    private router: Router,
+    private dialog: MatDialog
   ) {
     this.accounts$ = this.store.select(selectAllAccounts);
     this.loading$ = this.store.select(selectAccountsLoading);
@@ -115,10 +119,18 @@ export class AccountListComponent implements OnInit, OnDestroy {
     this.router.navigateByUrl(`/banking/account/${accountId}`);
   }
 
-  closeAccount(account: Account): void {
-    if (confirm(`Are you sure you want to close account ${account.accountNumber}?`)) {
-      this.store.dispatch(deleteAccount({ accountId: account.id }));
-    }
+  closeAccount(account: Account, event: Event): void {
+    // Keep the row click from opening the account details
+    event.stopPropagation();
+
+    this.dialog.open<CloseAccountDialogComponent, CloseAccountDialogData, string>(CloseAccountDialogComponent, {
+      width: '480px',
+      data: { account }
+    }).afterClosed().subscribe(reason => {
+      if (reason) {
+        this.store.dispatch(closeAccount({ request: { accountId: account.id, reason } }));
+      }
+    });
   }
 
   getAccountTypeColor(type: AccountType): string {
@@ -1,12 +1,47 @@
-import { Component } from '@angular/core';
+// src/app/banking/components/balance-display/balance-display.component.ts
+
+import { Component, Input } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { MatIconModule } from '@angular/material/icon';
+import { MatProgressBarModule } from '@angular/material/progress-bar';
+import { Account, AccountType, OverdraftUsage, ACCOUNT_RULES } from '../../models/account.model';
+import { getOverdraftUsage } from '../../store/account.state';
 
 @Component({
   selector: 'app-balance-display',
   standalone: true,
-  imports: [],
+  imports: [CommonModule, MatIconModule, MatProgressBarModule],
   templateUrl: './balance-display.component.html',
   styleUrl: './balance-display.component.css'
 })
 export class BalanceDisplayComponent {
+  @Input({ required: true }) account!: Account;
+
+  AccountType = AccountType;
+
+  isLowBalance(account: Account): boolean {
+    const threshold = account.accountType === AccountType.SAVINGS
+      ? ACCOUNT_RULES.SAVINGS.LOW_BALANCE_THRESHOLD
+      : ACCOUNT_RULES.CURRENT.LOW_BALANCE_THRESHOLD;
+
+    return account.balance < threshold;
+  }
+
+  getAvailableBalance(account: Account): number {
+    if (account.accountType === AccountType.CURRENT && account.overdraftLimit) {
+      return account.balance + account.overdraftLimit;
+    }
+    return account.balance;
+  }
+
+  getOverdraftUsage(account: Account): OverdraftUsage {
+    return getOverdraftUsage(account);
+  }
 
+  getOverdraftUsageColor(usage: OverdraftUsage): 'primary' | 'accent' | 'warn' {
+    if (usage.utilizationPercentage >= 90) {
+      return 'warn';
+    }
+    return usage.utilizationPercentage >= 50 ? 'accent' : 'primary';
+  }
 }
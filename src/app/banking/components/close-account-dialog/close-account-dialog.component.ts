@@ -0,0 +1,66 @@
+// src/app/banking/components/close-account-dialog/close-account-dialog.component.ts
+
+import { Component, Inject } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormControl, ReactiveFormsModule, Validators } from '@angular/forms';
+import { MAT_DIALOG_DATA, MatDialogModule, MatDialogRef } from '@angular/material/dialog';
+import { MatFormFieldModule } from '@angular/material/form-field';
+import { MatInputModule } from '@angular/material/input';
+import { MatButtonModule } from '@angular/material/button';
+import { MatIconModule } from '@angular/material/icon';
+import { Account } from '../../models/account.model';
+
+export interface CloseAccountDialogData {
+  account: Account;
+}
+
+/**
+ * Asks for the closure reason and explains what happens to the balance.
+ * Closes with the trimmed reason, or undefined when cancelled.
+ */
+@Component({
+  selector: 'app-close-account-dialog',
+  standalone: true,
+  imports: [
+    CommonModule,
+    ReactiveFormsModule,
+    MatDialogModule,
+    MatFormFieldModule,
+    MatInputModule,
+    MatButtonModule,
+    MatIconModule
+  ],
+  templateUrl: './close-account-dialog.component.html',
+  styleUrl: './close-account-dialog.component.css'
+})
+export class CloseAccountDialogComponent {
+  reason = new FormControl('', {
+    nonNullable: true,
+    validators: [Validators.required, Validators.maxLength(200)]
+  });
+
+  constructor(
+    private ref: MatDialogRef<CloseAccountDialogComponent, string>,
+    @Inject(MAT_DIALOG_DATA) public data: CloseAccountDialogData
+  ) {}
+
+  get account(): Account {
+    return this.data.account;
+  }
+
+  get isOverdrawn(): boolean {
+    return this.account.balance < 0;
+  }
+
+  confirm(): void {
+    if (this.reason.invalid || !this.reason.value.trim() || this.isOverdrawn) {
+      this.reason.markAsTouched();
+      return;
+    }
+    this.ref.close(this.reason.value.trim());
+  }
+
+  cancel(): void {
+    this.ref.close();
+  }
+}
@@ -0,0 +1,124 @@
+// src/app/banking/components/month-end/month-end.component.ts
+
+import { Component, OnDestroy, signal } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormControl, ReactiveFormsModule, Validators } from '@angular/forms';
+import { RouterLink } from '@angular/router';
+import { MatCardModule } from '@angular/material/card';
+import { MatFormFieldModule } from '@angular/material/form-field';
+import { MatInputModule } from '@angular/material/input';
+import { MatButtonModule } from '@angular/material/button';
+import { MatIconModule } from '@angular/material/icon';
+import { MatTableModule } from '@angular/material/table';
+import { MatProgressBarModule } from '@angular/material/progress-bar';
+import { ToastrService } from 'ngx-toastr';
+import { Subscription } from 'rxjs';
+import { MonthEndResponse, MonthEndResultStatus } from '../../models/month-end.model';
+import { MonthEndService } from '../../services/month-end.service';
+
+@Component({
+  selector: 'app-month-end',
+  standalone: true,
+  imports: [
+    CommonModule,
+    ReactiveFormsModule,
+    RouterLink,
+    MatCardModule,
+    MatFormFieldModule,
+    MatInputModule,
+    MatButtonModule,
+    MatIconModule,
+    MatTableModule,
+    MatProgressBarModule
+  ],
+  templateUrl: './month-end.component.html',
+  styleUrl: './month-end.component.css'
+})
+export class MonthEndComponent implements OnDestroy {
+  periodControl: FormControl<string>;
+
+  running = signal(false);
+  response = signal<MonthEndResponse | null>(null);
+
+  displayedColumns: string[] = [
+    'accountNumber',
+    'accountHolderName',
+    'accountType',
+    'averageBalance',
+    'interestCredited',
+    'serviceCharged',
+    'status',
+    'message'
+  ];
+
+  readonly MonthEndResultStatus = MonthEndResultStatus;
+
+  private subscription = new Subscription();
+
+  constructor(
+    private monthEndService: MonthEndService,
+    private toastr: ToastrService
+  ) {
+    this.periodControl = new FormControl(this.monthEndService.getLastCompletedPeriod(), {
+      nonNullable: true,
+      validators: [Validators.required]
+    });
+  }
+
+  ngOnDestroy(): void {
+    this.subscription.unsubscribe();
+  }
+
+  get periodLabel(): string {
+    return this.periodControl.valid ? this.formatPeriod(this.periodControl.value) : '';
+  }
+
+  formatPeriod(period: string): string {
+    return this.monthEndService.getPeriodLabel(period);
+  }
+
+  runMonthEnd(): void {
+    const period = this.periodControl.value;
+    const periodError = this.monthEndService.validatePeriod(period);
+    if (periodError) {
+      this.toastr.error(periodError, 'Invalid Period');
+      return;
+    }
+
+    if (!confirm(`Post interest and service charges for ${this.periodLabel}? Accounts already processed for this month are skipped.`)) {
+      return;
+    }
+
+    this.running.set(true);
+    this.response.set(null);
+
+    const runSub = this.monthEndService.runMonthEnd({ period }).subscribe({
+      next: response => {
+        this.running.set(false);
+        this.response.set(response);
+
+        if (response.failedCount > 0) {
+          this.toastr.warning(
+            `${response.processedCount} processed, ${response.failedCount} failed`,
+            'Month-End Completed With Errors'
+          );
+        } else {
+          this.toastr.success(
+            `${response.processedCount} processed, ${response.skippedCount} skipped`,
+            'Month-End Completed'
+          );
+        }
+      },
+      error: error => {
+        this.running.set(false);
+        this.toastr.error(error.message, 'Month-End Failed');
+      }
+    });
+
+    this.subscription.add(runSub);
+  }
+
+  getStatusClass(status: MonthEndResultStatus): string {
+    return `status-${status.toLowerCase().replace(/_/g, '-')}`;
+  }
+}
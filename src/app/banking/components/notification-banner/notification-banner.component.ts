@@ -1,12 +1,147 @@
-import { Component } from '@angular/core';
+// src/app/banking/components/notification-banner/notification-banner.component.ts
+
+import { Component, Input, OnChanges, OnDestroy, OnInit, SimpleChanges, signal } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { Router } from '@angular/router';
+import { MatButtonModule } from '@angular/material/button';
+import { MatIconModule } from '@angular/material/icon';
+import { MatTooltipModule } from '@angular/material/tooltip';
+import { Subscription, forkJoin } from 'rxjs';
+import { filter } from 'rxjs/operators';
+import { ToastrService } from 'ngx-toastr';
+import {
+  Notification,
+  NotificationPriority,
+  NotificationStatus
+} from '../../models/notificationmodel';
+import { NotificationService } from '../../services/notification.service';
 
 @Component({
   selector: 'app-notification-banner',
   standalone: true,
-  imports: [],
+  imports: [CommonModule, MatButtonModule, MatIconModule, MatTooltipModule],
   templateUrl: './notification-banner.component.html',
   styleUrl: './notification-banner.component.css'
 })
-export class NotificationBannerComponent {
+export class NotificationBannerComponent implements OnInit, OnChanges, OnDestroy {
+  @Input({ required: true }) accountId!: number;
+
+  // Number of notifications shown before "Show all"
+  @Input() maxVisible = 3;
+
+  notifications = signal<Notification[]>([]);
+  expanded = signal(false);
+
+  private subscription = new Subscription();
+
+  constructor(
+    private notificationService: NotificationService,
+    private router: Router,
+    private toastr: ToastrService
+  ) {}
+
+  ngOnInit(): void {
+    // Refresh when a banking event creates a notification for this account
+    const createdSub = this.notificationService.notificationCreated$
+      .pipe(filter(notification => notification.accountId === this.accountId))
+      .subscribe(() => this.loadNotifications());
+
+    this.subscription.add(createdSub);
+  }
+
+  ngOnChanges(changes: SimpleChanges): void {
+    if (changes['accountId'] && this.accountId) {
+      this.loadNotifications();
+    }
+  }
+
+  ngOnDestroy(): void {
+    this.subscription.unsubscribe();
+  }
+
+  loadNotifications(): void {
+    const loadSub = forkJoin({
+      preferences: this.notificationService.getPreferences(this.accountId),
+      notifications: this.notificationService.getUnreadNotifications(this.accountId)
+    }).subscribe({
+      // In-app alerts switched off in the notification settings hide the banner
+      next: ({ preferences, notifications }) =>
+        this.notifications.set(preferences.pushNotifications ? notifications : []),
+      // The banner is informational only; a failed load simply shows nothing
+      error: () => this.notifications.set([])
+    });
+
+    this.subscription.add(loadSub);
+  }
+
+  get visibleNotifications(): Notification[] {
+    return this.expanded()
+      ? this.notifications()
+      : this.notifications().slice(0, this.maxVisible);
+  }
+
+  toggleExpanded(): void {
+    this.expanded.update(expanded => !expanded);
+  }
+
+  markAsRead(notification: Notification): void {
+    this.updateStatus(notification, NotificationStatus.READ);
+  }
+
+  dismiss(notification: Notification): void {
+    this.updateStatus(notification, NotificationStatus.DISMISSED);
+  }
+
+  markAllAsRead(): void {
+    const markSub = this.notificationService.markAllNotifications({
+      accountId: this.accountId,
+      status: NotificationStatus.READ
+    }).subscribe({
+      next: () => this.notifications.set([]),
+      // Some notifications may have been marked before the failure; show what is still unread
+      error: error => {
+        this.toastr.error(error.message, 'Failed to mark notifications as read');
+        this.loadNotifications();
+      }
+    });
+
+    this.subscription.add(markSub);
+  }
+
+  openAction(notification: Notification): void {
+    const actionUrl = notification.metadata?.actionUrl;
+    if (actionUrl) {
+      this.markAsRead(notification);
+      this.router.navigateByUrl(actionUrl);
+    }
+  }
+
+  getPriorityIcon(priority: NotificationPriority): string {
+    switch (priority) {
+      case NotificationPriority.CRITICAL:
+        return 'report';
+      case NotificationPriority.HIGH:
+        return 'warning';
+      case NotificationPriority.MEDIUM:
+        return 'info';
+      default:
+        return 'notifications';
+    }
+  }
+
+  getPriorityClass(priority: NotificationPriority): string {
+    return `priority-${priority.toLowerCase()}`;
+  }
+
+  private updateStatus(notification: Notification, status: NotificationStatus): void {
+    const markSub = this.notificationService.markNotification({
+      notificationId: notification.id,
+      status
+    }).subscribe({
+      next: () => this.notifications.update(list => list.filter(n => n.id !== notification.id)),
+      error: error => this.toastr.error(error.message, 'Failed to update notification')
+    });
 
+    this.subscription.add(markSub);
+  }
 }
@@ -0,0 +1,224 @@
+// src/app/banking/components/notification-preferences/notification-preferences.component.ts
+
+import { Component, OnInit, OnDestroy, signal } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormBuilder, FormGroup, ReactiveFormsModule, Validators } from '@angular/forms';
+import { ActivatedRoute, Router } from '@angular/router';
+import { MatCardModule } from '@angular/material/card';
+import { MatButtonModule } from '@angular/material/button';
+import { MatIconModule } from '@angular/material/icon';
+import { MatFormFieldModule } from '@angular/material/form-field';
+import { MatInputModule } from '@angular/material/input';
+import { MatSlideToggleModule } from '@angular/material/slide-toggle';
+import { MatTabsModule } from '@angular/material/tabs';
+import { MatProgressSpinnerModule } from '@angular/material/progress-spinner';
+import { Store } from '@ngrx/store';
+import { ToastrService } from 'ngx-toastr';
+import { Observable, Subscription, forkJoin } from 'rxjs';
+import { Account, AccountType, ACCOUNT_RULES } from '../../models/account.model';
+import {
+  NotificationChannel,
+  NotificationPreferences,
+  NotificationType,
+  NOTIFICATION_PRIORITY_MAP,
+  NOTIFICATION_TEMPLATES,
+  OutboxMessage
+} from '../../models/notificationmodel';
+import { NotificationService } from '../../services/notification.service';
+import { loadAccount } from '../../store/account.actions';
+import { selectSelectedAccount } from '../../store/account.selectors';
+
+@Component({
+  selector: 'app-notification-preferences',
+  standalone: true,
+  imports: [
+    CommonModule,
+    ReactiveFormsModule,
+    MatCardModule,
+    MatButtonModule,
+    MatIconModule,
+    MatFormFieldModule,
+    MatInputModule,
+    MatSlideToggleModule,
+    MatTabsModule,
+    MatProgressSpinnerModule
+  ],
+  templateUrl: './notification-preferences.component.html',
+  styleUrl: './notification-preferences.component.css'
+})
+export class NotificationPreferencesComponent implements OnInit, OnDestroy {
+  account$: Observable<Account | null>;
+
+  accountId: number = 0;
+  preferencesForm!: FormGroup;
+
+  readonly notificationTypes = Object.values(NotificationType);
+  readonly NotificationChannel = NotificationChannel;
+  readonly AccountType = AccountType;
+
+  // Comma separated percentages between 1 and 100, e.g. "50, 75, 100"
+  private readonly thresholdPattern = /^\s*(100|[1-9]\d?)(\s*,\s*(100|[1-9]\d?))*\s*$/;
+
+  loading = signal(true);
+  saving = signal(false);
+  emailOutbox = signal<OutboxMessage[]>([]);
+  smsOutbox = signal<OutboxMessage[]>([]);
+
+  // Saved record, kept so the next save updates it instead of creating another
+  private preferences: NotificationPreferences | null = null;
+  private subscription = new Subscription();
+
+  constructor(
+    private fb: FormBuilder,
+    private store: Store,
+    private route: ActivatedRoute,
+    private router: Router,
+    private notificationService: NotificationService,
+    private toastr: ToastrService
+  ) {
+    this.account$ = this.store.select(selectSelectedAccount);
+  }
+
+  ngOnInit(): void {
+    this.initializeForm();
+
+    const routeSub = this.route.paramMap.subscribe(params => {
+      const id = params.get('id');
+      if (id) {
+        this.accountId = parseInt(id, 10);
+        this.store.dispatch(loadAccount({ accountId: this.accountId }));
+        this.loadPreferences();
+        this.loadOutboxes();
+      }
+    });
+
+    this.subscription.add(routeSub);
+  }
+
+  ngOnDestroy(): void {
+    this.subscription.unsubscribe();
+  }
+
+  initializeForm(): void {
+    const typeControls = Object.fromEntries(this.notificationTypes.map(type => [type, true]));
+
+    this.preferencesForm = this.fb.group({
+      emailNotifications: [true],
+      smsNotifications: [false],
+      pushNotifications: [true],
+      overdraftWarningThresholds: [
+        ACCOUNT_RULES.CURRENT.OVERDRAFT_WARNING_THRESHOLDS.join(', '),
+        [Validators.required, Validators.pattern(this.thresholdPattern)]
+      ],
+      notificationTypes: this.fb.group(typeControls)
+    });
+  }
+
+  loadPreferences(): void {
+    this.loading.set(true);
+
+    const loadSub = this.notificationService.getPreferences(this.accountId).subscribe({
+      next: preferences => {
+        this.preferences = preferences;
+        this.preferencesForm.reset({
+          emailNotifications: preferences.emailNotifications,
+          smsNotifications: preferences.smsNotifications,
+          pushNotifications: preferences.pushNotifications,
+          overdraftWarningThresholds: (
+            preferences.overdraftWarningThresholds ?? ACCOUNT_RULES.CURRENT.OVERDRAFT_WARNING_THRESHOLDS
+          ).join(', '),
+          notificationTypes: Object.fromEntries(this.notificationTypes.map(type =>
+            [type, this.notificationService.isTypeEnabled(preferences, type)]
+          ))
+        });
+        this.loading.set(false);
+      },
+      error: error => {
+        this.loading.set(false);
+        this.toastr.error(error.message, 'Failed to load preferences');
+      }
+    });
+
+    this.subscription.add(loadSub);
+  }
+
+  loadOutboxes(): void {
+    const outboxSub = forkJoin({
+      email: this.notificationService.getOutbox(this.accountId, NotificationChannel.EMAIL),
+      sms: this.notificationService.getOutbox(this.accountId, NotificationChannel.SMS)
+    }).subscribe({
+      next: ({ email, sms }) => {
+        this.emailOutbox.set(email);
+        this.smsOutbox.set(sms);
+      },
+      // The outboxes are informational only; a failed load simply shows nothing
+      error: () => {
+        this.emailOutbox.set([]);
+        this.smsOutbox.set([]);
+      }
+    });
+
+    this.subscription.add(outboxSub);
+  }
+
+  onSubmit(): void {
+    if (this.preferencesForm.invalid) {
+      this.preferencesForm.markAllAsTouched();
+      return;
+    }
+
+    const formValue = this.preferencesForm.value;
+    const preferences: NotificationPreferences = {
+      ...(this.preferences?.id && { id: this.preferences.id }),
+      accountId: this.accountId,
+      emailNotifications: formValue.emailNotifications,
+      smsNotifications: formValue.smsNotifications,
+      pushNotifications: formValue.pushNotifications,
+      overdraftWarningThresholds: this.parseThresholds(formValue.overdraftWarningThresholds),
+      notificationTypes: formValue.notificationTypes
+    };
+
+    this.saving.set(true);
+
+    const saveSub = this.notificationService.savePreferences(preferences).subscribe({
+      next: saved => {
+        this.preferences = saved;
+        this.preferencesForm.markAsPristine();
+        this.saving.set(false);
+        this.toastr.success('Notification preferences saved', 'Saved');
+      },
+      error: error => {
+        this.saving.set(false);
+        this.toastr.error(error.message, 'Failed to save preferences');
+      }
+    });
+
+    this.subscription.add(saveSub);
+  }
+
+  setAllTypes(enabled: boolean): void {
+    const typesGroup = this.preferencesForm.get('notificationTypes');
+    typesGroup?.setValue(Object.fromEntries(this.notificationTypes.map(type => [type, enabled])));
+    typesGroup?.markAsDirty();
+  }
+
+  getTypeLabel(type: NotificationType): string {
+    return NOTIFICATION_TEMPLATES[type].title;
+  }
+
+  getTypePriority(type: NotificationType): string {
+    return NOTIFICATION_PRIORITY_MAP[type];
+  }
+
+  /**
+   * "90, 50,75" -> [50, 75, 90]
+   */
+  private parseThresholds(value: string): number[] {
+    const thresholds = value.split(',').map(part => Number(part.trim()));
+    return [...new Set(thresholds)].sort((a, b) => a - b);
+  }
+
+  cancel(): void {
+    this.router.navigateByUrl(`/banking/account/${this.accountId}`);
+  }
+}
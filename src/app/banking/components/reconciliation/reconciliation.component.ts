@@ -0,0 +1,99 @@
+// src/app/banking/components/reconciliation/reconciliation.component.ts
+
+import { Component, OnInit, OnDestroy, computed, signal } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { RouterLink } from '@angular/router';
+import { MatCardModule } from '@angular/material/card';
+import { MatButtonModule } from '@angular/material/button';
+import { MatIconModule } from '@angular/material/icon';
+import { MatTableModule } from '@angular/material/table';
+import { MatSlideToggleModule } from '@angular/material/slide-toggle';
+import { MatProgressBarModule } from '@angular/material/progress-bar';
+import { ToastrService } from 'ngx-toastr';
+import { Subscription } from 'rxjs';
+import { ReconciliationReport, ReconciliationStatus } from '../../models/reconciliation.model';
+import { ReconciliationService } from '../../services/reconciliation.service';
+
+@Component({
+  selector: 'app-reconciliation',
+  standalone: true,
+  imports: [
+    CommonModule,
+    RouterLink,
+    MatCardModule,
+    MatButtonModule,
+    MatIconModule,
+    MatTableModule,
+    MatSlideToggleModule,
+    MatProgressBarModule
+  ],
+  templateUrl: './reconciliation.component.html',
+  styleUrl: './reconciliation.component.css'
+})
+export class ReconciliationComponent implements OnInit, OnDestroy {
+  loading = signal(false);
+  report = signal<ReconciliationReport | null>(null);
+  mismatchesOnly = signal(true);
+
+  rows = computed(() => {
+    const accounts = this.report()?.accounts ?? [];
+    return this.mismatchesOnly()
+      ? accounts.filter(a => a.status === ReconciliationStatus.MISMATCH)
+      : accounts;
+  });
+
+  displayedColumns: string[] = [
+    'accountNumber',
+    'accountHolderName',
+    'accountStatus',
+    'balance',
+    'ledgerBalance',
+    'difference',
+    'entries',
+    'status'
+  ];
+
+  readonly ReconciliationStatus = ReconciliationStatus;
+
+  private subscription = new Subscription();
+
+  constructor(
+    private reconciliationService: ReconciliationService,
+    private toastr: ToastrService
+  ) {}
+
+  ngOnInit(): void {
+    this.runCheck();
+  }
+
+  ngOnDestroy(): void {
+    this.subscription.unsubscribe();
+  }
+
+  runCheck(): void {
+    this.loading.set(true);
+
+    const checkSub = this.reconciliationService.reconcileAccounts().subscribe({
+      next: report => {
+        this.loading.set(false);
+        this.report.set(report);
+        if (report.mismatchCount > 0) {
+          this.toastr.warning(
+            `${report.mismatchCount} account(s) do not match their ledger`,
+            'Reconciliation'
+          );
+        }
+      },
+      error: error => {
+        this.loading.set(false);
+        this.toastr.error(error.message, 'Reconciliation Failed');
+      }
+    });
+
+    this.subscription.add(checkSub);
+  }
+
+  getStatusClass(status: ReconciliationStatus): string {
+    return `status-${status.toLowerCase()}`;
+  }
+}
@@ -0,0 +1,139 @@
+// src/app/banking/components/statement/statement.component.ts
+
+import { Component, OnInit, OnDestroy, signal } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormBuilder, FormGroup, ReactiveFormsModule, Validators } from '@angular/forms';
+import { ActivatedRoute } from '@angular/router';
+import { MatCardModule } from '@angular/material/card';
+import { MatFormFieldModule } from '@angular/material/form-field';
+import { MatInputModule } from '@angular/material/input';
+import { MatSelectModule } from '@angular/material/select';
+import { MatDatepickerModule } from '@angular/material/datepicker';
+import { MatButtonModule } from '@angular/material/button';
+import { MatIconModule } from '@angular/material/icon';
+import { MatTableModule } from '@angular/material/table';
+import { MatProgressBarModule } from '@angular/material/progress-bar';
+import { provideNativeDateAdapter } from '@angular/material/core';
+import { Store } from '@ngrx/store';
+import { ToastrService } from 'ngx-toastr';
+import { Observable, Subscription } from 'rxjs';
+import { Account } from '../../models/account.model';
+import { AccountStatement } from '../../models/statement.model';
+import { StatementService } from '../../services/statement.service';
+import { loadAccounts } from '../../store/account.actions';
+import { selectAllAccounts } from '../../store/account.selectors';
+
+@Component({
+  selector: 'app-statement',
+  standalone: true,
+  imports: [
+    CommonModule,
+    ReactiveFormsModule,
+    MatCardModule,
+    MatFormFieldModule,
+    MatInputModule,
+    MatSelectModule,
+    MatDatepickerModule,
+    MatButtonModule,
+    MatIconModule,
+    MatTableModule,
+    MatProgressBarModule
+  ],
+  providers: [provideNativeDateAdapter()],
+  templateUrl: './statement.component.html',
+  styleUrl: './statement.component.css'
+})
+export class StatementComponent implements OnInit, OnDestroy {
+  accounts$: Observable<Account[]>;
+
+  statementForm!: FormGroup;
+
+  generating = signal(false);
+  statement = signal<AccountStatement | null>(null);
+
+  displayedColumns: string[] = ['transactionDate', 'transactionType', 'description', 'credit', 'debit', 'balance'];
+
+  private subscription = new Subscription();
+
+  constructor(
+    private fb: FormBuilder,
+    private store: Store,
+    private route: ActivatedRoute,
+    private statementService: StatementService,
+    private toastr: ToastrService
+  ) {
+    this.accounts$ = this.store.select(selectAllAccounts);
+  }
+
+  ngOnInit(): void {
+    this.initializeForm();
+    this.store.dispatch(loadAccounts());
+
+    const routeSub = this.route.paramMap.subscribe(params => {
+      const id = params.get('id');
+      if (id) {
+        this.statementForm.patchValue({ accountId: parseInt(id, 10) });
+      }
+    });
+
+    this.subscription.add(routeSub);
+  }
+
+  ngOnDestroy(): void {
+    this.subscription.unsubscribe();
+  }
+
+  /**
+   * Defaults to the current month up to today
+   */
+  initializeForm(): void {
+    const today = new Date();
+
+    this.statementForm = this.fb.group({
+      accountId: [null, Validators.required],
+      startDate: [new Date(today.getFullYear(), today.getMonth(), 1), Validators.required],
+      endDate: [today, Validators.required]
+    });
+  }
+
+  generate(): void {
+    if (this.statementForm.invalid) {
+      this.statementForm.markAllAsTouched();
+      return;
+    }
+
+    const { accountId, startDate, endDate } = this.statementForm.value;
+    const rangeError = this.statementService.validateRange(startDate, endDate);
+    if (rangeError) {
+      this.toastr.error(rangeError, 'Invalid Period');
+      return;
+    }
+
+    this.generating.set(true);
+
+    const generateSub = this.statementService.generateStatement({ accountId, startDate, endDate }).subscribe({
+      next: statement => {
+        this.generating.set(false);
+        this.statement.set(statement);
+      },
+      error: error => {
+        this.generating.set(false);
+        this.toastr.error(error.message, 'Failed to generate statement');
+      }
+    });
+
+    this.subscription.add(generateSub);
+  }
+
+  downloadCsv(statement: AccountStatement): void {
+    this.statementService.exportCsv(statement);
+  }
+
+  downloadPdf(statement: AccountStatement): void {
+    this.statementService.exportPdf(statement);
+  }
+
+  getTypeLabel(type: string): string {
+    return type.replace(/_/g, ' ');
+  }
+}
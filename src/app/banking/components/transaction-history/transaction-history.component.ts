@@ -0,0 +1,215 @@
+// src/app/banking/components/transaction-history/transaction-history.component.ts
+
+import { Component, OnInit, OnDestroy } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormBuilder, ReactiveFormsModule } from '@angular/forms';
+import { ActivatedRoute, Router } from '@angular/router';
+import { MatCardModule } from '@angular/material/card';
+import { MatTableModule } from '@angular/material/table';
+import { MatPaginatorModule, PageEvent } from '@angular/material/paginator';
+import { MatFormFieldModule } from '@angular/material/form-field';
+import { MatSelectModule } from '@angular/material/select';
+import { MatInputModule } from '@angular/material/input';
+import { MatDatepickerModule } from '@angular/material/datepicker';
+import { MatButtonModule } from '@angular/material/button';
+import { MatIconModule } from '@angular/material/icon';
+import { MatChipsModule } from '@angular/material/chips';
+import { MatProgressSpinnerModule } from '@angular/material/progress-spinner';
+import { MatTooltipModule } from '@angular/material/tooltip';
+import { provideNativeDateAdapter } from '@angular/material/core';
+import { Store } from '@ngrx/store';
+import { Observable, Subscription } from 'rxjs';
+import { Account } from '../../models/account.model';
+import {
+  Transaction,
+  TransactionType,
+  TransactionStatus,
+  TransactionHistoryRequest
+} from '../../models/transaction.model';
+import { loadAccount, loadAccounts } from '../../store/account.actions';
+import { selectSelectedAccount, selectAllAccounts } from '../../store/account.selectors';
+import { loadTransactionHistory, reverseTransaction } from '../../store/transaction.actions';
+import {
+  selectTransactions,
+  selectTransactionPaging,
+  selectTransactionsLoading,
+  selectTransactionProcessing,
+  selectTransactionError
+} from '../../store/transaction.selectors';
+import { canReverseTransaction, isCreditTransaction } from '../../store/transaction.state';
+import { NotificationBannerComponent } from '../notification-banner/notification-banner.component';
+
+@Component({
+  selector: 'app-transaction-history',
+  standalone: true,
+  providers: [provideNativeDateAdapter()],
+  imports: [
+    CommonModule,
+    ReactiveFormsModule,
+    MatCardModule,
+    MatTableModule,
+    MatPaginatorModule,
+    MatFormFieldModule,
+    MatSelectModule,
+    MatInputModule,
+    MatDatepickerModule,
+    MatButtonModule,
+    MatIconModule,
+    MatChipsModule,
+    MatProgressSpinnerModule,
+    MatTooltipModule,
+    NotificationBannerComponent
+  ],
+  templateUrl: './transaction-history.component.html',
+  styleUrl: './transaction-history.component.css'
+})
+export class TransactionHistoryComponent implements OnInit, OnDestroy {
+  displayedColumns: string[] = [
+    'transactionDate',
+    'transactionType',
+    'amount',
+    'balanceAfterTransaction',
+    'status',
+    'remarks',
+    'action'
+  ];
+
+  account$: Observable<Account | null>;
+  accounts$: Observable<Account[]>;
+
+  transactions$: Observable<Transaction[]>;
+  paging$: Observable<{ totalRecords: number; pageNumber: number; pageSize: number; totalPages: number }>;
+  loading$: Observable<boolean>;
+  processing$: Observable<boolean>;
+  error$: Observable<string | null>;
+
+  accountId: number = 0;
+  pageNumber = 1;
+  pageSize = 10;
+
+  transactionTypes = Object.values(TransactionType);
+
+  filterForm = this.fb.group({
+    transactionType: this.fb.control<TransactionType | ''>(''),
+    startDate: this.fb.control<Date | null>(null),
+    endDate: this.fb.control<Date | null>(null)
+  });
+
+  private subscription = new Subscription();
+
+  constructor(
+    private fb: FormBuilder,
+    private store: Store,
+    private route: ActivatedRoute,
+    private router: Router
+  ) {
+    this.account$ = this.store.select(selectSelectedAccount);
+    this.accounts$ = this.store.select(selectAllAccounts);
+    this.transactions$ = this.store.select(selectTransactions);
+    this.paging$ = this.store.select(selectTransactionPaging);
+    this.loading$ = this.store.select(selectTransactionsLoading);
+    this.processing$ = this.store.select(selectTransactionProcessing);
+    this.error$ = this.store.select(selectTransactionError);
+  }
+
+  ngOnInit(): void {
+    const routeSub = this.route.paramMap.subscribe(params => {
+      const id = params.get('id');
+      if (id) {
+        this.accountId = parseInt(id, 10);
+        this.pageNumber = 1;
+        this.store.dispatch(loadAccount({ accountId: this.accountId }));
+        this.loadHistory();
+      } else {
+        // Opened from the menu without an account: let the user pick one
+        this.accountId = 0;
+        this.store.dispatch(loadAccounts());
+      }
+    });
+
+    this.subscription.add(routeSub);
+  }
+
+  ngOnDestroy(): void {
+    this.subscription.unsubscribe();
+  }
+
+  loadHistory(): void {
+    if (!this.accountId) {
+      return;
+    }
+
+    const filters = this.filterForm.value;
+    const request: TransactionHistoryRequest = {
+      accountId: this.accountId,
+      transactionType: filters.transactionType || undefined,
+      startDate: filters.startDate || undefined,
+      endDate: filters.endDate || undefined,
+      pageNumber: this.pageNumber,
+      pageSize: this.pageSize
+    };
+
+    this.store.dispatch(loadTransactionHistory({ request }));
+  }
+
+  applyFilters(): void {
+    this.pageNumber = 1;
+    this.loadHistory();
+  }
+
+  clearFilters(): void {
+    this.filterForm.reset({ transactionType: '', startDate: null, endDate: null });
+    this.applyFilters();
+  }
+
+  onPageChange(event: PageEvent): void {
+    this.pageNumber = event.pageIndex + 1;
+    this.pageSize = event.pageSize;
+    this.loadHistory();
+  }
+
+  selectAccount(accountId: number): void {
+    this.router.navigateByUrl(`/banking/transactions/${accountId}`);
+  }
+
+  isCredit(transaction: Transaction): boolean {
+    return isCreditTransaction(transaction);
+  }
+
+  canReverse(transaction: Transaction): boolean {
+    return canReverseTransaction(transaction);
+  }
+
+  reverse(transaction: Transaction): void {
+    const reason = prompt(`Reason for reversing transaction #${transaction.id} of ₹${transaction.amount}?`);
+    if (reason && reason.trim()) {
+      this.store.dispatch(reverseTransaction({ transactionId: transaction.id, reason: reason.trim() }));
+    }
+  }
+
+  getTypeLabel(type: TransactionType): string {
+    return type.replace(/_/g, ' ');
+  }
+
+  getStatusColor(status: TransactionStatus): string {
+    switch (status) {
+      case TransactionStatus.COMPLETED:
+        return 'primary';
+      case TransactionStatus.FAILED:
+        return 'warn';
+      case TransactionStatus.PENDING:
+      case TransactionStatus.REVERSED:
+        return 'accent';
+      default:
+        return '';
+    }
+  }
+
+  goBack(): void {
+    if (this.accountId) {
+      this.router.navigateByUrl(`/banking/account/${this.accountId}`);
+    } else {
+      this.router.navigateByUrl('/banking/accounts');
+    }
+  }
+}
@@ -1,12 +1,180 @@
-import { Component } from '@angular/core';
+// src/app/banking/components/transaction-panel/transaction-panel.component.ts
+
+import { Component, OnInit, OnDestroy } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormBuilder, FormGroup, ReactiveFormsModule, Validators } from '@angular/forms';
+import { ActivatedRoute, Router } from '@angular/router';
+import { MatCardModule } from '@angular/material/card';
+import { MatFormFieldModule } from '@angular/material/form-field';
+import { MatInputModule } from '@angular/material/input';
+import { MatButtonModule } from '@angular/material/button';
+import { MatIconModule } from '@angular/material/icon';
+import { MatProgressSpinnerModule } from '@angular/material/progress-spinner';
+import { Store } from '@ngrx/store';
+import { Observable, Subscription } from 'rxjs';
+import { Account, AccountStatus, AccountType, ACCOUNT_RULES } from '../../models/account.model';
+import { TRANSACTION_RULES } from '../../models/transaction.model';
+import { loadAccount } from '../../store/account.actions';
+import { selectSelectedAccount, selectAccountsLoading } from '../../store/account.selectors';
+import { deposit, withdraw } from '../../store/transaction.actions';
+import { selectTransactionProcessing } from '../../store/transaction.selectors';
+import { BalanceDisplayComponent } from '../balance-display/balance-display.component';
+import { NotificationBannerComponent } from '../notification-banner/notification-banner.component';
+
+export type TransactionMode = 'deposit' | 'withdraw';
 
 @Component({
   selector: 'app-transaction-panel',
   standalone: true,
-  imports: [],
+  imports: [
+    CommonModule,
+    ReactiveFormsModule,
+    MatCardModule,
+    MatFormFieldModule,
+    MatInputModule,
+    MatButtonModule,
+    MatIconModule,
+    MatProgressSpinnerModule,
+    BalanceDisplayComponent,
+    NotificationBannerComponent
+  ],
   templateUrl: './transaction-panel.component.html',
   styleUrl: './transaction-panel.component.css'
 })
-export class TransactionPanelComponent {
+export class TransactionPanelComponent implements OnInit, OnDestroy {
+  account$: Observable<Account | null>;
+  loading$: Observable<boolean>;
+  submitting$: Observable<boolean>;
+
+  mode: TransactionMode = 'deposit';
+  accountId: number = 0;
+  transactionForm!: FormGroup;
+
+  private subscription = new Subscription();
+
+  constructor(
+    private fb: FormBuilder,
+    private store: Store,
+    private route: ActivatedRoute,
+    private router: Router
+  ) {
+    this.account$ = this.store.select(selectSelectedAccount);
+    this.loading$ = this.store.select(selectAccountsLoading);
+    this.submitting$ = this.store.select(selectTransactionProcessing);
+  }
+
+  ngOnInit(): void {
+    this.mode = this.route.snapshot.data['mode'] === 'withdraw' ? 'withdraw' : 'deposit';
+    this.initializeForm();
+
+    const routeSub = this.route.paramMap.subscribe(params => {
+      const id = params.get('id');
+      if (id) {
+        this.accountId = parseInt(id, 10);
+        this.store.dispatch(loadAccount({ accountId: this.accountId }));
+      }
+    });
+
+    this.subscription.add(routeSub);
+  }
+
+  ngOnDestroy(): void {
+    this.subscription.unsubscribe();
+  }
+
+  initializeForm(): void {
+    const amountValidators = this.isDeposit
+      ? [
+          Validators.required,
+          Validators.min(TRANSACTION_RULES.MIN_DEPOSIT_AMOUNT),
+          Validators.max(TRANSACTION_RULES.MAX_DEPOSIT_AMOUNT)
+        ]
+      : [
+          Validators.required,
+          Validators.min(TRANSACTION_RULES.MIN_WITHDRAWAL_AMOUNT),
+          Validators.max(TRANSACTION_RULES.DAILY_WITHDRAWAL_LIMIT)
+        ];
+
+    this.transactionForm = this.fb.group({
+      amount: ['', amountValidators],
+      remarks: ['', Validators.maxLength(100)]
+    });
+  }
+
+  get isDeposit(): boolean {
+    return this.mode === 'deposit';
+  }
+
+  get title(): string {
+    return this.isDeposit ? 'Deposit Money' : 'Withdraw Money';
+  }
+
+  getLimits(account: Account): string[] {
+    if (this.isDeposit) {
+      return [
+        `Minimum deposit: ₹${TRANSACTION_RULES.MIN_DEPOSIT_AMOUNT}`,
+        `Maximum deposit: ₹${TRANSACTION_RULES.MAX_DEPOSIT_AMOUNT}`
+      ];
+    }
+
+    const limits = [
+      `Minimum withdrawal: ₹${TRANSACTION_RULES.MIN_WITHDRAWAL_AMOUNT}`,
+      `Daily withdrawal limit: ₹${TRANSACTION_RULES.DAILY_WITHDRAWAL_LIMIT}`
+    ];
+    if (account.accountType === AccountType.SAVINGS) {
+      limits.push(`Per transaction limit: ₹${ACCOUNT_RULES.SAVINGS.WITHDRAWAL_LIMIT}`);
+      limits.push(`Minimum balance to maintain: ₹${account.minBalance}`);
+    } else {
+      limits.push(`Overdraft facility: ₹${account.overdraftLimit || 0}`);
+      limits.push(`Overdraft fee: ${TRANSACTION_RULES.OVERDRAFT_FEE_PERCENTAGE}% of the overdraft drawn`);
+    }
+    return limits;
+  }
+
+  canPerformTransactions(account: Account): boolean {
+    return account.status === AccountStatus.ACTIVE;
+  }
+
+  onSubmit(): void {
+    if (this.transactionForm.invalid || !this.accountId) {
+      this.transactionForm.markAllAsTouched();
+      return;
+    }
+
+    const request = {
+      accountId: this.accountId,
+      amount: Number(this.transactionForm.value.amount),
+      remarks: this.transactionForm.value.remarks || undefined
+    };
+
+    // The transaction effects post the transaction, refresh the account and navigate back
+    if (this.isDeposit) {
+      this.store.dispatch(deposit({ request }));
+    } else {
+      this.store.dispatch(withdraw({ request }));
+    }
+  }
+
+  cancel(): void {
+    this.router.navigateByUrl(`/banking/account/${this.accountId}`);
+  }
+
+  getErrorMessage(fieldName: string): string {
+    const control = this.transactionForm.get(fieldName);
+
+    if (control?.hasError('required')) {
+      return 'This field is required';
+    }
+    if (control?.hasError('min')) {
+      return `Minimum amount is ₹${control.errors?.['min'].min}`;
+    }
+    if (control?.hasError('max')) {
+      return `Maximum amount is ₹${control.errors?.['max'].max}`;
+    }
+    if (control?.hasError('maxlength')) {
+      return `Maximum ${control.errors?.['maxlength'].requiredLength} characters allowed`;
+    }
 
+    return '';
+  }
 }
@@ -0,0 +1,184 @@
+// src/app/banking/components/transfer/transfer.component.ts
+
+import { Component, OnInit, OnDestroy } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormBuilder, FormGroup, ReactiveFormsModule, Validators } from '@angular/forms';
+import { ActivatedRoute, Router } from '@angular/router';
+import { MatCardModule } from '@angular/material/card';
+import { MatFormFieldModule } from '@angular/material/form-field';
+import { MatInputModule } from '@angular/material/input';
+import { MatSelectModule } from '@angular/material/select';
+import { MatAutocompleteModule } from '@angular/material/autocomplete';
+import { MatButtonModule } from '@angular/material/button';
+import { MatIconModule } from '@angular/material/icon';
+import { MatProgressSpinnerModule } from '@angular/material/progress-spinner';
+import { Store } from '@ngrx/store';
+import { Observable, Subscription, combineLatest, map, startWith } from 'rxjs';
+import { Account, AccountType, ACCOUNT_RULES } from '../../models/account.model';
+import { TRANSACTION_RULES } from '../../models/transaction.model';
+import { loadAccounts } from '../../store/account.actions';
+import { selectActiveAccounts, selectAccountsLoading } from '../../store/account.selectors';
+import { transfer } from '../../store/transaction.actions';
+import { selectTransactionProcessing } from '../../store/transaction.selectors';
+import { BalanceDisplayComponent } from '../balance-display/balance-display.component';
+
+@Component({
+  selector: 'app-transfer',
+  standalone: true,
+  imports: [
+    CommonModule,
+    ReactiveFormsModule,
+    MatCardModule,
+    MatFormFieldModule,
+    MatInputModule,
+    MatSelectModule,
+    MatAutocompleteModule,
+    MatButtonModule,
+    MatIconModule,
+    MatProgressSpinnerModule,
+    BalanceDisplayComponent
+  ],
+  templateUrl: './transfer.component.html',
+  styleUrl: './transfer.component.css'
+})
+export class TransferComponent implements OnInit, OnDestroy {
+  accounts$: Observable<Account[]>;
+  loading$: Observable<boolean>;
+  submitting$: Observable<boolean>;
+  sourceAccount$!: Observable<Account | undefined>;
+  destinationOptions$!: Observable<Account[]>;
+
+  accountId: number = 0;
+  transferForm!: FormGroup;
+
+  private subscription = new Subscription();
+
+  constructor(
+    private fb: FormBuilder,
+    private store: Store,
+    private route: ActivatedRoute,
+    private router: Router
+  ) {
+    this.accounts$ = this.store.select(selectActiveAccounts);
+    this.loading$ = this.store.select(selectAccountsLoading);
+    this.submitting$ = this.store.select(selectTransactionProcessing);
+  }
+
+  ngOnInit(): void {
+    this.initializeForm();
+    this.store.dispatch(loadAccounts());
+
+    const fromControl = this.transferForm.get('fromAccountNumber')!;
+    const toControl = this.transferForm.get('toAccountNumber')!;
+
+    this.sourceAccount$ = combineLatest([
+      this.accounts$,
+      fromControl.valueChanges.pipe(startWith(fromControl.value))
+    ]).pipe(
+      map(([accounts, accountNumber]) => accounts.find(a => a.accountNumber === accountNumber))
+    );
+
+    this.destinationOptions$ = combineLatest([
+      this.accounts$,
+      fromControl.valueChanges.pipe(startWith(fromControl.value)),
+      toControl.valueChanges.pipe(startWith(toControl.value))
+    ]).pipe(
+      map(([accounts, fromNumber, search]) => {
+        const term = (search || '').toLowerCase();
+        return accounts.filter(a =>
+          a.accountNumber !== fromNumber &&
+          (a.accountNumber.toLowerCase().includes(term) ||
+            a.accountHolderName.toLowerCase().includes(term))
+        );
+      })
+    );
+
+    // Preselect the source account when opened from an account's details page
+    const routeSub = combineLatest([this.route.paramMap, this.accounts$]).subscribe(([params, accounts]) => {
+      const id = params.get('id');
+      if (!id || fromControl.value) {
+        return;
+      }
+      this.accountId = parseInt(id, 10);
+      const account = accounts.find(a => a.id === this.accountId);
+      if (account) {
+        fromControl.setValue(account.accountNumber);
+      }
+    });
+
+    this.subscription.add(routeSub);
+  }
+
+  ngOnDestroy(): void {
+    this.subscription.unsubscribe();
+  }
+
+  initializeForm(): void {
+    this.transferForm = this.fb.group({
+      fromAccountNumber: ['', Validators.required],
+      toAccountNumber: ['', Validators.required],
+      amount: ['', [
+        Validators.required,
+        Validators.min(TRANSACTION_RULES.MIN_WITHDRAWAL_AMOUNT),
+        Validators.max(TRANSACTION_RULES.DAILY_WITHDRAWAL_LIMIT)
+      ]],
+      remarks: ['', Validators.maxLength(100)]
+    });
+  }
+
+  getLimits(account: Account): string[] {
+    const limits = [
+      `Minimum transfer: ₹${TRANSACTION_RULES.MIN_WITHDRAWAL_AMOUNT}`,
+      `Daily limit (shared with withdrawals): ₹${TRANSACTION_RULES.DAILY_WITHDRAWAL_LIMIT}`
+    ];
+    if (account.accountType === AccountType.SAVINGS) {
+      limits.push(`Per transaction limit: ₹${ACCOUNT_RULES.SAVINGS.WITHDRAWAL_LIMIT}`);
+      limits.push(`Minimum balance to maintain: ₹${account.minBalance}`);
+    } else {
+      limits.push(`Overdraft facility: ₹${account.overdraftLimit || 0}`);
+      limits.push(`Overdraft fee: ${TRANSACTION_RULES.OVERDRAFT_FEE_PERCENTAGE}% of the overdraft drawn`);
+    }
+    return limits;
+  }
+
+  onSubmit(): void {
+    if (this.transferForm.invalid) {
+      this.transferForm.markAllAsTouched();
+      return;
+    }
+
+    const formValue = this.transferForm.value;
+    const request = {
+      fromAccountNumber: formValue.fromAccountNumber,
+      toAccountNumber: formValue.toAccountNumber.trim(),
+      amount: Number(formValue.amount),
+      remarks: formValue.remarks || undefined
+    };
+
+    // The transaction effects post both legs, refresh the accounts and navigate to the source account
+    this.store.dispatch(transfer({ request }));
+  }
+
+  cancel(): void {
+    this.router.navigateByUrl(this.accountId ? `/banking/account/${this.accountId}` : '/banking/accounts');
+  }
+
+  getErrorMessage(fieldName: string): string {
+    const control = this.transferForm.get(fieldName);
+
+    if (control?.hasError('required')) {
+      return 'This field is required';
+    }
+    if (control?.hasError('min')) {
+      return `Minimum amount is ₹${control.errors?.['min'].min}`;
+    }
+    if (control?.hasError('max')) {
+      return `Maximum amount is ₹${control.errors?.['max'].max}`;
+    }
+    if (control?.hasError('maxlength')) {
+      return `Maximum ${control.errors?.['maxlength'].requiredLength} characters allowed`;
+    }
+
+    return '';
+  }
+}
@@ -1,5 +1,7 @@
 // src/app/banking/models/account.model.ts
 
+import { Transaction } from './transaction.model';
+
 export enum AccountType {
   SAVINGS = 'SAVINGS',
   CURRENT = 'CURRENT'
@@ -26,6 +28,8 @@ export interface Account {
   lastModifiedDate: Date;
   monthlyServiceCharge: number;
   interestRate: number;
+  closedDate?: Date; // Set when the account is closed
+  closureReason?: string;
 }
 
 export interface SavingsAccount extends Account {
@@ -60,7 +64,33 @@ export interface CloseAccountRequest {
 export interface CloseAccountResponse {
   success: boolean;
   message: string;
+  account: Account; // The CLOSED account, kept with its closure details
   closedDate: Date;
+  closingBalance: number;
+  closureTransaction?: Transaction; // Payout of the residual balance, when there was one
+}
+
+export interface AccountStatusChangeRequest {
+  accountId: number;
+  reason: string;
+}
+
+export interface AccountStatusChange {
+  id: number;
+  accountId: number;
+  accountNumber: string;
+  fromStatus: AccountStatus;
+  toStatus: AccountStatus;
+  reason: string;
+  changedBy: string;
+  changedDate: Date;
+}
+
+export interface AccountStatusChangeResponse {
+  success: boolean;
+  message: string;
+  account: Account;
+  statusChange: AccountStatusChange;
 }
 
 export interface BalanceCheckResponse {
@@ -72,6 +102,13 @@ export interface BalanceCheckResponse {
   minBalanceRequired: number;
 }
 
+export interface OverdraftUsage {
+  overdraftLimit: number;
+  overdraftUsed: number;
+  overdraftAvailable: number;
+  utilizationPercentage: number;
+}
+
 // Constants for business rules
 export const ACCOUNT_RULES = {
   SAVINGS: {
@@ -86,6 +123,7 @@ export const ACCOUNT_RULES = {
     LOW_BALANCE_THRESHOLD: 7000,
     OVERDRAFT_LIMIT: 10000,
     MONTHLY_SERVICE_CHARGE: 500,
-    INITIAL_DEPOSIT_MIN: 5000
+    INITIAL_DEPOSIT_MIN: 5000,
+    OVERDRAFT_WARNING_THRESHOLDS: [50, 75, 90, 100] // % of the overdraft limit in use
   }
 };
\ No newline at end of file
@@ -0,0 +1,76 @@
+// src/app/banking/models/month-end.model.ts
+
+import { AccountType } from './account.model';
+
+export enum MonthEndRunStatus {
+  IN_PROGRESS = 'IN_PROGRESS',
+  COMPLETED = 'COMPLETED',
+  FAILED = 'FAILED'
+}
+
+export enum MonthEndResultStatus {
+  PROCESSED = 'PROCESSED',
+  ALREADY_PROCESSED = 'ALREADY_PROCESSED',
+  NOT_APPLICABLE = 'NOT_APPLICABLE',
+  FAILED = 'FAILED'
+}
+
+/**
+ * One month-end run of one account, stored in the monthEndRuns collection.
+ * The record is created before any money moves and remembers each posted
+ * transaction, so a rerun of the same period never posts twice.
+ */
+export interface MonthEndRun {
+  id: number;
+  accountId: number;
+  accountNumber: string;
+  period: string; // YYYY-MM
+  status: MonthEndRunStatus;
+  averageBalance: number;
+  interestAmount: number;
+  serviceChargeAmount: number;
+  interestTransactionId?: number;
+  serviceChargeTransactionId?: number;
+  errorMessage?: string;
+  startedDate: Date;
+  completedDate?: Date;
+  runBy?: string;
+}
+
+export interface MonthEndRequest {
+  period: string; // YYYY-MM
+}
+
+export interface MonthEndAccountResult {
+  accountId: number;
+  accountNumber: string;
+  accountHolderName: string;
+  accountType: AccountType;
+  status: MonthEndResultStatus;
+  averageBalance: number;
+  interestCredited: number;
+  serviceCharged: number;
+  message: string;
+}
+
+export interface MonthEndResponse {
+  period: string;
+  results: MonthEndAccountResult[];
+  processedCount: number;
+  skippedCount: number;
+  failedCount: number;
+  totalInterestCredited: number;
+  totalServiceCharged: number;
+}
+
+export interface MonthEndCalculation {
+  averageBalance: number;
+  interestAmount: number;
+  serviceChargeAmount: number;
+}
+
+// Interest is accrued daily on the end-of-day balance using an actual/365 day count
+export const MONTH_END_RULES = {
+  DAYS_IN_YEAR: 365,
+  MIN_INTEREST_CREDIT: 0.01
+};
@@ -12,7 +12,9 @@ export enum NotificationType {
   OVERDRAFT_WARNING = 'OVERDRAFT_WARNING',
   DAILY_LIMIT_REACHED = 'DAILY_LIMIT_REACHED',
   ACCOUNT_SUSPENDED = 'ACCOUNT_SUSPENDED',
-  ACCOUNT_REACTIVATED = 'ACCOUNT_REACTIVATED'
+  ACCOUNT_REACTIVATED = 'ACCOUNT_REACTIVATED',
+  TRANSFER_SENT = 'TRANSFER_SENT',
+  TRANSFER_RECEIVED = 'TRANSFER_RECEIVED'
 }
 
 export enum NotificationPriority {
@@ -114,6 +116,7 @@ export interface LowBalanceCheckResponse {
 }
 
 export interface NotificationPreferences {
+  id?: number;
   accountId: number;
   emailNotifications: boolean;
   smsNotifications: boolean;
@@ -121,8 +124,37 @@ export interface NotificationPreferences {
   notificationTypes: {
     [key in NotificationType]?: boolean;
   };
+  overdraftWarningThresholds?: number[]; // Current accounts; defaults to ACCOUNT_RULES.CURRENT.OVERDRAFT_WARNING_THRESHOLDS
 }
 
+// Channels that deliver a copy of a notification outside the app
+export enum NotificationChannel {
+  EMAIL = 'EMAIL',
+  SMS = 'SMS'
+}
+
+// A message recorded in the local email or SMS outbox instead of being sent
+export interface OutboxMessage {
+  id: number;
+  channel: NotificationChannel;
+  accountId: number;
+  accountNumber: string;
+  notificationId: number;
+  notificationType: NotificationType;
+  recipient: string;
+  subject?: string; // Email only
+  body: string;
+  sentDate: Date;
+}
+
+// Email, in-app and every type enabled until the account holder opts out; SMS is opt-in
+export const DEFAULT_NOTIFICATION_PREFERENCES: Omit<NotificationPreferences, 'accountId'> = {
+  emailNotifications: true,
+  smsNotifications: false,
+  pushNotifications: true,
+  notificationTypes: {}
+};
+
 // Notification templates for different types
 export const NOTIFICATION_TEMPLATES = {
   LOW_BALANCE: {
@@ -184,6 +216,16 @@ export const NOTIFICATION_TEMPLATES = {
     title: 'Account Reactivated',
     getMessage: (accountNumber: string) => 
       `Your account ${accountNumber} has been reactivated successfully.`
+  },
+  TRANSFER_SENT: {
+    title: 'Transfer Sent',
+    getMessage: (amount: number, toAccountNumber: string, balance: number) => 
+      `₹${amount.toFixed(2)} transferred to account ${toAccountNumber}. Current balance: ₹${balance.toFixed(2)}.`
+  },
+  TRANSFER_RECEIVED: {
+    title: 'Transfer Received',
+    getMessage: (amount: number, fromAccountNumber: string, balance: number) => 
+      `₹${amount.toFixed(2)} received from account ${fromAccountNumber}. Current balance: ₹${balance.toFixed(2)}.`
   }
 };
 
@@ -200,5 +242,7 @@ export const NOTIFICATION_PRIORITY_MAP: Record<NotificationType, NotificationPri
   [NotificationType.OVERDRAFT_WARNING]: NotificationPriority.CRITICAL,
   [NotificationType.DAILY_LIMIT_REACHED]: NotificationPriority.HIGH,
   [NotificationType.ACCOUNT_SUSPENDED]: NotificationPriority.CRITICAL,
-  [NotificationType.ACCOUNT_REACTIVATED]: NotificationPriority.MEDIUM
+  [NotificationType.ACCOUNT_REACTIVATED]: NotificationPriority.MEDIUM,
+  [NotificationType.TRANSFER_SENT]: NotificationPriority.MEDIUM,
+  [NotificationType.TRANSFER_RECEIVED]: NotificationPriority.LOW
 };
\ No newline at end of file
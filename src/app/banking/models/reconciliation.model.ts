@@ -0,0 +1,37 @@
+// src/app/banking/models/reconciliation.model.ts
+
+import { AccountStatus, AccountType } from './account.model';
+
+export enum ReconciliationStatus {
+  BALANCED = 'BALANCED',
+  MISMATCH = 'MISMATCH'
+}
+
+/**
+ * Account.balance compared with the balance implied by its ledger
+ */
+export interface AccountReconciliation {
+  accountId: number;
+  accountNumber: string;
+  accountHolderName: string;
+  accountType: AccountType;
+  accountStatus: AccountStatus;
+  balance: number;
+  ledgerBalance: number;
+  difference: number; // balance - ledgerBalance
+  completedCount: number;
+  pendingCount: number; // PENDING entries may explain a difference while a posting is in flight
+  status: ReconciliationStatus;
+}
+
+export interface ReconciliationReport {
+  generatedDate: Date;
+  accounts: AccountReconciliation[];
+  balancedCount: number;
+  mismatchCount: number;
+  totalDifference: number;
+}
+
+export const RECONCILIATION_RULES = {
+  TOLERANCE: 0.005 // Differences below half a paisa are rounding, not a mismatch
+};
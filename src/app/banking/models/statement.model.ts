@@ -0,0 +1,38 @@
+// src/app/banking/models/statement.model.ts
+
+import { Account } from './account.model';
+import { TransactionSummary, TransactionType } from './transaction.model';
+
+export interface StatementRequest {
+  accountId: number;
+  startDate: Date;
+  endDate: Date;
+}
+
+/**
+ * One completed transaction on a statement, with the balance running from the opening balance
+ */
+export interface StatementLine {
+  transactionId: number;
+  transactionDate: Date;
+  transactionType: TransactionType;
+  description: string;
+  credit: number;
+  debit: number;
+  balance: number;
+}
+
+export interface AccountStatement {
+  account: Account;
+  startDate: Date;
+  endDate: Date;
+  openingBalance: number;
+  closingBalance: number;
+  lines: StatementLine[];
+  summary: TransactionSummary;
+  generatedDate: Date;
+}
+
+export const STATEMENT_RULES = {
+  MAX_RANGE_DAYS: 366
+};
@@ -7,7 +7,12 @@ export enum TransactionType {
   SERVICE_CHARGE_DEBIT = 'SERVICE_CHARGE_DEBIT',
   OVERDRAFT_FEE = 'OVERDRAFT_FEE',
   ACCOUNT_OPENING = 'ACCOUNT_OPENING',
-  ACCOUNT_CLOSURE = 'ACCOUNT_CLOSURE'
+  ACCOUNT_CLOSURE = 'ACCOUNT_CLOSURE',
+  TRANSFER_OUT = 'TRANSFER_OUT',
+  TRANSFER_IN = 'TRANSFER_IN',
+  DEPOSIT_REVERSAL = 'DEPOSIT_REVERSAL',
+  WITHDRAWAL_REVERSAL = 'WITHDRAWAL_REVERSAL',
+  OVERDRAFT_FEE_REVERSAL = 'OVERDRAFT_FEE_REVERSAL'
 }
 
 export enum TransactionStatus {
@@ -29,6 +34,11 @@ export interface Transaction {
   remarks?: string;
   transactionDate: Date;
   createdBy?: string;
+  // Transfers only: both legs share the reference and point at each other
+  transferReference?: string;
+  counterpartyAccountNumber?: string;
+  // Transfer legs point at each other; a reversed entry and its reversal do the same
+  linkedTransactionId?: number;
 }
 
 export interface DepositRequest {
@@ -56,6 +66,33 @@ export interface WithdrawalResponse {
   transaction: Transaction;
   currentBalance: number;
   availableBalance: number;
+  overdraftFee?: Transaction; // Posted when the withdrawal draws on the overdraft
+}
+
+export interface TransferRequest {
+  fromAccountNumber: string;
+  toAccountNumber: string;
+  amount: number;
+  remarks?: string;
+}
+
+export interface TransferResponse {
+  success: boolean;
+  message: string;
+  transferReference: string;
+  debitTransaction: Transaction;
+  creditTransaction: Transaction;
+  overdraftFee?: Transaction;
+  sourceBalance: number;
+  destinationBalance: number;
+}
+
+export interface ReversalResponse {
+  success: boolean;
+  message: string;
+  transaction: Transaction; // The compensating entry
+  reversedTransaction: Transaction; // The original entry, now linked to its reversal
+  currentBalance: number;
 }
 
 export interface TransactionHistoryRequest {
@@ -89,6 +126,23 @@ export interface TransactionSummary {
   };
 }
 
+// Transaction types that add money to the account; every other type takes money out
+export const CREDIT_TRANSACTION_TYPES: TransactionType[] = [
+  TransactionType.DEPOSIT,
+  TransactionType.INTEREST_CREDIT,
+  TransactionType.ACCOUNT_OPENING,
+  TransactionType.TRANSFER_IN,
+  TransactionType.WITHDRAWAL_REVERSAL,
+  TransactionType.OVERDRAFT_FEE_REVERSAL
+];
+
+// Transaction types that can be reversed, with the type of the compensating entry
+export const REVERSAL_TRANSACTION_TYPES: Partial<Record<TransactionType, TransactionType>> = {
+  [TransactionType.DEPOSIT]: TransactionType.DEPOSIT_REVERSAL,
+  [TransactionType.WITHDRAWAL]: TransactionType.WITHDRAWAL_REVERSAL,
+  [TransactionType.OVERDRAFT_FEE]: TransactionType.OVERDRAFT_FEE_REVERSAL
+};
+
 // Constants for transaction rules
 export const TRANSACTION_RULES = {
   MIN_DEPOSIT_AMOUNT: 100,
@@ -2,8 +2,8 @@
 
 import { Injectable } from '@angular/core';
 import { HttpClient, HttpErrorResponse, HttpHeaders, HttpParams } from '@angular/common/http';
-import { Observable, throwError } from 'rxjs';
-import { catchError, map, retry, delay } from 'rxjs/operators';
+import { Observable, forkJoin, of, throwError } from 'rxjs';
+import { catchError, map, retry, delay, switchMap } from 'rxjs/operators';
 
 import {
   Account,
@@ -11,11 +11,15 @@ import {
   CreateAccountResponse,
   CloseAccountRequest,
   CloseAccountResponse,
+  AccountStatusChange,
+  AccountStatusChangeRequest,
+  AccountStatusChangeResponse,
   BalanceCheckResponse,
   AccountType,
   AccountStatus,
   ACCOUNT_RULES
 } from '../models/account.model';
+import { Transaction, TransactionStatus, TransactionType } from '../models/transaction.model';
 
 @Injectable({
   providedIn: 'root'
@@ -30,7 +34,9 @@ export class AccountService {
     accounts: `${this.baseUrl}/accounts`,
     accountById: (id: number) => `${this.baseUrl}/accounts/${id}`,
     transactions: `${this.baseUrl}/transactions`,
-    notifications: `${this.baseUrl}/notifications`
+    transactionById: (id: number) => `${this.baseUrl}/transactions/${id}`,
+    notifications: `${this.baseUrl}/notifications`,
+    statusHistory: `${this.baseUrl}/accountStatusHistory`
   };
 
   constructor(private http: HttpClient) {}
@@ -52,6 +58,19 @@ export class AccountService {
       );
   }
 
+  getAccountByNumber(accountNumber: string): Observable<Account> {
+    const params = new HttpParams().set('accountNumber', accountNumber);
+
+    return this.http.get<Account[]>(this.endpoints.accounts, { params })
+      .pipe(
+        catchError(this.handleError),
+        switchMap(accounts => accounts.length > 0
+          ? of(this.transformAccountDate(accounts[0]))
+          : throwError(() => new Error(`Account ${accountNumber} not found.`))
+        )
+      );
+  }
+
   getAccountsByStatus(status: AccountStatus): Observable<Account[]> {
     const params = new HttpParams().set('status', status);
     
@@ -106,7 +125,7 @@ export class AccountService {
       accountHolderName: request.accountHolderName,
       email: request.email,
       phone: request.phone,
-      balance: request.initialDeposit,
+      balance: 0, // Set by the ACCOUNT_OPENING entry below
       minBalance,
       status: AccountStatus.ACTIVE,
       createdDate: new Date(),
@@ -119,15 +138,35 @@ export class AccountService {
       })
     };
 
+    // The initial deposit is posted as an ACCOUNT_OPENING ledger entry so the
+    // account balance always reconciles with its transactions. Without it the
+    // new account is removed again, together with the FAILED opening entry.
     return this.http.post<Account>(this.endpoints.accounts, newAccount)
       .pipe(
+        catchError(this.handleError),
+        switchMap(account => this.postTransaction(
+          account,
+          TransactionType.ACCOUNT_OPENING,
+          request.initialDeposit,
+          request.initialDeposit,
+          'Initial deposit'
+        ).pipe(
+          map(opening => ({ ...account, balance: opening.balanceAfterTransaction })),
+          catchError(error =>
+            this.deleteOpeningTransactions(account.id).pipe(
+              catchError(() => of(null)),
+              switchMap(() => this.deleteAccount(account.id)),
+              catchError(() => of(null)),
+              switchMap(() => throwError(() => error))
+            )
+          )
+        )),
         delay(500), // Simulate network delay
         map((account: Account) => ({
           success: true,
           message: `Account ${account.accountNumber} created successfully!`,
           account: this.transformAccountDate(account)
-        })),
-        catchError(this.handleError)
+        }))
       );
   }
 
@@ -166,19 +205,38 @@ export class AccountService {
 
   /**
    * Update account balance
+   * The new balance is an absolute value, so when expectedBalance is given the account
+   * is read again first and the update is refused if another posting moved the balance
+   * in the meantime.
+   * GET   http://localhost:3000/accounts/:id
    * PATCH http://localhost:3000/accounts/:id
    */
-  updateAccountBalance(accountId: number, newBalance: number): Observable<Account> {
-    const updates = {
-      balance: newBalance,
-      lastModifiedDate: new Date()
-    };
+  updateAccountBalance(accountId: number, newBalance: number, expectedBalance?: number): Observable<Account> {
+    return this.updateAccount(accountId, { balance: newBalance }, expectedBalance);
+  }
 
-    return this.http.patch<Account>(this.endpoints.accountById(accountId), updates)
+  /**
+   * Update account fields, with the same optional balance check as updateAccountBalance
+   * GET   http://localhost:3000/accounts/:id
+   * PATCH http://localhost:3000/accounts/:id
+   */
+  updateAccount(accountId: number, updates: Partial<Account>, expectedBalance?: number): Observable<Account> {
+    const patch$ = this.http.patch<Account>(this.endpoints.accountById(accountId), { ...updates, lastModifiedDate: new Date() })
       .pipe(
         map(account => this.transformAccountDate(account)),
         catchError(this.handleError)
       );
+
+    if (expectedBalance === undefined) {
+      return patch$;
+    }
+    return this.getAccountById(accountId).pipe(
+      switchMap(account => account.balance === expectedBalance
+        ? patch$
+        : throwError(() => new Error(
+            `The balance of account ${account.accountNumber} changed while this transaction was being posted. Please try again.`
+          )))
+    );
   }
 
   /**
@@ -198,6 +256,108 @@ export class AccountService {
       );
   }
 
+  /**
+   * Suspend an active account
+   * While suspended, deposits, withdrawals, transfers and reversals are refused.
+   */
+  suspendAccount(request: AccountStatusChangeRequest): Observable<AccountStatusChangeResponse> {
+    return this.changeAccountStatus(request, AccountStatus.SUSPENDED);
+  }
+
+  /**
+   * Reactivate a suspended account
+   */
+  reactivateAccount(request: AccountStatusChangeRequest): Observable<AccountStatusChangeResponse> {
+    return this.changeAccountStatus(request, AccountStatus.ACTIVE);
+  }
+
+  /**
+   * Status changes of an account, newest first
+   * GET http://localhost:3000/accountStatusHistory?accountId=1&_sort=changedDate&_order=desc
+   */
+  getStatusHistory(accountId: number): Observable<AccountStatusChange[]> {
+    const params = new HttpParams()
+      .set('accountId', accountId.toString())
+      .set('_sort', 'changedDate')
+      .set('_order', 'desc');
+
+    return this.http.get<AccountStatusChange[]>(this.endpoints.statusHistory, { params })
+      .pipe(
+        map(changes => changes.map(change => ({ ...change, changedDate: new Date(change.changedDate) }))),
+        catchError(this.handleError)
+      );
+  }
+
+  // ============================================================================
+  // LEDGER POSTINGS
+  // ============================================================================
+
+  /**
+   * Post a ledger entry and move the account balance
+   * Used for every money movement (TransactionService) and for account opening and closure.
+   * 1. POST the entry as PENDING, so a failed posting leaves a FAILED entry instead of a silent mismatch
+   * 2. PATCH the account balance together with any accountUpdates (e.g. the CLOSED status);
+   *    refused if the balance no longer equals balanceBeforeTransaction
+   * 3. PATCH the entry to COMPLETED
+   * If step 3 fails the account is put back as it was, because reconciliation only counts
+   * COMPLETED entries. The entry is marked FAILED whenever step 2 or 3 fails.
+   * POST  http://localhost:3000/transactions
+   * PATCH http://localhost:3000/accounts/:id
+   * PATCH http://localhost:3000/transactions/:id
+   */
+  postTransaction(
+    account: Account,
+    transactionType: TransactionType,
+    amount: number,
+    balanceAfterTransaction: number,
+    remarks: string,
+    details: Partial<Transaction> = {},
+    accountUpdates: Partial<Account> = {}
+  ): Observable<Transaction> {
+    const pending: Omit<Transaction, 'id'> = {
+      ...details,
+      accountId: account.id,
+      accountNumber: account.accountNumber,
+      transactionType,
+      amount,
+      balanceBeforeTransaction: account.balance,
+      balanceAfterTransaction,
+      status: TransactionStatus.PENDING,
+      remarks,
+      transactionDate: new Date(),
+      createdBy: localStorage.getItem('username') || undefined
+    };
+    // Fields the account did not have yet are cleared with null
+    const restore: Partial<Account> = Object.fromEntries(
+      Object.keys(accountUpdates).map(key => [key, account[key as keyof Account] ?? null])
+    );
+
+    return this.http.post<Transaction>(this.endpoints.transactions, pending).pipe(
+      catchError(this.handleError),
+      switchMap(transaction =>
+        this.updateAccount(account.id, { ...accountUpdates, balance: balanceAfterTransaction }, account.balance).pipe(
+          switchMap(() => this.updateTransactionStatus(transaction.id, TransactionStatus.COMPLETED).pipe(
+            catchError(error =>
+              this.updateAccount(account.id, { ...restore, balance: account.balance }, balanceAfterTransaction).pipe(
+                catchError(() => throwError(() => new Error(
+                  `Transaction #${transaction.id} could not be completed and account ${account.accountNumber} ` +
+                  `could not be restored (balance ₹${account.balance.toFixed(2)}). Please contact support.`
+                ))),
+                switchMap(() => throwError(() => error))
+              )
+            )
+          )),
+          catchError(error =>
+            this.updateTransactionStatus(transaction.id, TransactionStatus.FAILED).pipe(
+              catchError(() => of(null)),
+              switchMap(() => throwError(() => error))
+            )
+          )
+        )
+      )
+    );
+  }
+
   // ============================================================================
   // DELETE OPERATIONS
   // ============================================================================
@@ -205,24 +365,63 @@ export class AccountService {
   /**
    * Close an account
    * For JSON Server: We update status to CLOSED instead of deleting
-   * PATCH http://localhost:3000/accounts/:id
+   * 1. GET the account; overdrawn or already closed accounts are refused
+   * 2. Post an ACCOUNT_CLOSURE transaction paying out any residual balance; the same posting
+   *    PATCHes the account to CLOSED with a zero balance, the closed date and the reason,
+   *    and reopens the account with its balance if the payout cannot be completed
+   * An account without a balance is only PATCHed to CLOSED.
    */
-  closeAccount(accountId: number, reason: string = 'Customer request'): Observable<CloseAccountResponse> {
-    const updates = {
-      status: AccountStatus.CLOSED,
-      lastModifiedDate: new Date()
-    };
+  closeAccount(request: CloseAccountRequest): Observable<CloseAccountResponse> {
+    const reason = request.reason?.trim();
+    if (!reason) {
+      return throwError(() => new Error('A reason is required to close the account.'));
+    }
 
-    return this.http.patch<Account>(this.endpoints.accountById(accountId), updates)
-      .pipe(
-        delay(300),
-        map(() => ({
-          success: true,
-          message: 'Account closed successfully',
-          closedDate: new Date()
-        })),
-        catchError(this.handleError)
-      );
+    return this.getAccountById(request.accountId).pipe(
+      switchMap(account => {
+        if (account.status === AccountStatus.CLOSED) {
+          return throwError(() => new Error(`Account ${account.accountNumber} is already closed.`));
+        }
+        if (account.balance < 0) {
+          return throwError(() => new Error(
+            `Account ${account.accountNumber} is overdrawn by ₹${Math.abs(account.balance).toFixed(2)}. Clear the balance before closing.`
+          ));
+        }
+
+        const closedDate = new Date();
+        const updates: Partial<Account> = {
+          status: AccountStatus.CLOSED,
+          closedDate,
+          closureReason: reason
+        };
+
+        const closed$: Observable<Transaction | undefined> = account.balance === 0
+          ? this.updateAccount(account.id, updates, 0).pipe(map(() => undefined))
+          : this.postTransaction(
+              account,
+              TransactionType.ACCOUNT_CLOSURE,
+              account.balance,
+              0,
+              `Closing balance paid out. Reason: ${reason}`,
+              {},
+              updates
+            );
+
+        return closed$.pipe(
+          delay(300),
+          map(closureTransaction => ({
+            success: true,
+            message: account.balance > 0
+              ? `Account closed. ₹${account.balance.toFixed(2)} paid out.`
+              : 'Account closed successfully',
+            account: { ...account, ...updates, balance: 0 },
+            closedDate,
+            closingBalance: account.balance,
+            ...(closureTransaction && { closureTransaction })
+          }))
+        );
+      })
+    );
   }
 
   /**
@@ -236,6 +435,26 @@ export class AccountService {
       );
   }
 
+  /**
+   * Remove the opening entries of an account whose creation is rolled back
+   * GET    http://localhost:3000/transactions?accountId=1&transactionType=ACCOUNT_OPENING
+   * DELETE http://localhost:3000/transactions/:id
+   */
+  private deleteOpeningTransactions(accountId: number): Observable<void> {
+    const params = new HttpParams()
+      .set('accountId', accountId.toString())
+      .set('transactionType', TransactionType.ACCOUNT_OPENING);
+
+    return this.http.get<Transaction[]>(this.endpoints.transactions, { params })
+      .pipe(
+        switchMap(entries => entries.length
+          ? forkJoin(entries.map(entry => this.http.delete<void>(this.endpoints.transactionById(entry.id))))
+          : of([])),
+        map(() => undefined),
+        catchError(this.handleError)
+      );
+  }
+
   // ============================================================================
   // STATISTICS & REPORTING
   // ============================================================================
@@ -286,6 +505,77 @@ export class AccountService {
   // UTILITY METHODS
   // ============================================================================
 
+  /**
+   * Move an account between ACTIVE and SUSPENDED
+   * 1. GET the account and check the transition is allowed
+   * 2. PATCH the new status
+   * 3. POST the status-change history entry
+   * If step 3 fails the previous status is restored, so every change stays on record.
+   */
+  private changeAccountStatus(
+    request: AccountStatusChangeRequest,
+    toStatus: AccountStatus.ACTIVE | AccountStatus.SUSPENDED
+  ): Observable<AccountStatusChangeResponse> {
+    const reason = request.reason?.trim();
+    if (!reason) {
+      return throwError(() => new Error('A reason is required to change the account status.'));
+    }
+
+    const fromStatus = toStatus === AccountStatus.SUSPENDED ? AccountStatus.ACTIVE : AccountStatus.SUSPENDED;
+
+    return this.getAccountById(request.accountId).pipe(
+      switchMap(account => {
+        if (account.status !== fromStatus) {
+          return throwError(() => new Error(
+            `Account ${account.accountNumber} is ${account.status}. Only ${fromStatus} accounts can be ${toStatus === AccountStatus.SUSPENDED ? 'suspended' : 'reactivated'}.`
+          ));
+        }
+
+        const entry: Omit<AccountStatusChange, 'id'> = {
+          accountId: account.id,
+          accountNumber: account.accountNumber,
+          fromStatus,
+          toStatus,
+          reason,
+          changedBy: localStorage.getItem('username') || 'system',
+          changedDate: new Date()
+        };
+
+        return this.updateAccountStatus(account.id, toStatus).pipe(
+          switchMap(updated =>
+            this.http.post<AccountStatusChange>(this.endpoints.statusHistory, entry).pipe(
+              catchError(this.handleError),
+              catchError(error =>
+                this.updateAccountStatus(account.id, fromStatus).pipe(
+                  catchError(() => of(null)),
+                  switchMap(() => throwError(() => error))
+                )
+              ),
+              map(statusChange => ({
+                success: true,
+                message: toStatus === AccountStatus.SUSPENDED
+                  ? `Account ${account.accountNumber} suspended`
+                  : `Account ${account.accountNumber} reactivated`,
+                account: updated,
+                statusChange: { ...statusChange, changedDate: new Date(statusChange.changedDate) }
+              }))
+            )
+          )
+        );
+      })
+    );
+  }
+
+  /**
+   * PATCH http://localhost:3000/transactions/:id
+   */
+  private updateTransactionStatus(transactionId: number, status: TransactionStatus): Observable<Transaction> {
+    return this.http.patch<Transaction>(this.endpoints.transactionById(transactionId), { status }).pipe(
+      map(transaction => ({ ...transaction, transactionDate: new Date(transaction.transactionDate) })),
+      catchError(this.handleError)
+    );
+  }
+
   /**
    * Generate unique account number
    * Format: ACC + 9 random digits
@@ -313,7 +603,8 @@ export class AccountService {
     return {
       ...account,
       createdDate: new Date(account.createdDate),
-      lastModifiedDate: new Date(account.lastModifiedDate)
+      lastModifiedDate: new Date(account.lastModifiedDate),
+      ...(account.closedDate && { closedDate: new Date(account.closedDate) })
     };
   }
 
@@ -0,0 +1,465 @@
+// src/app/banking/services/month-end.service.ts
+
+import { Injectable } from '@angular/core';
+import { HttpClient, HttpErrorResponse, HttpParams } from '@angular/common/http';
+import { Observable, from, of, throwError } from 'rxjs';
+import { catchError, concatMap, map, switchMap, tap, toArray } from 'rxjs/operators';
+
+import { Account, AccountStatus, AccountType, ACCOUNT_RULES } from '../models/account.model';
+import { Transaction, TransactionStatus, TransactionType } from '../models/transaction.model';
+import { NotificationType } from '../models/notificationmodel';
+import {
+  MonthEndRun,
+  MonthEndRunStatus,
+  MonthEndResultStatus,
+  MonthEndRequest,
+  MonthEndResponse,
+  MonthEndAccountResult,
+  MonthEndCalculation,
+  MONTH_END_RULES
+} from '../models/month-end.model';
+import { getBalanceAt } from '../store/transaction.state';
+import { AccountService } from './account.service';
+import { TransactionService } from './transaction.service';
+import { NotificationService } from './notification.service';
+
+@Injectable({
+  providedIn: 'root'
+})
+export class MonthEndService {
+
+  // JSON Server Base URL
+  private readonly baseUrl = 'http://localhost:3000';
+
+  // API Endpoints
+  private readonly endpoints = {
+    runs: `${this.baseUrl}/monthEndRuns`,
+    runById: (id: number) => `${this.baseUrl}/monthEndRuns/${id}`
+  };
+
+  constructor(
+    private http: HttpClient,
+    private accountService: AccountService,
+    private transactionService: TransactionService,
+    private notificationService: NotificationService
+  ) {}
+
+  // ============================================================================
+  // GET OPERATIONS
+  // ============================================================================
+
+  /**
+   * Get the month-end runs of a period
+   * GET http://localhost:3000/monthEndRuns?period=2024-10
+   */
+  getRuns(period: string): Observable<MonthEndRun[]> {
+    const params = new HttpParams().set('period', period);
+
+    return this.http.get<MonthEndRun[]>(this.endpoints.runs, { params })
+      .pipe(
+        catchError(this.handleError)
+      );
+  }
+
+  // ============================================================================
+  // MONTH-END PROCESSING
+  // ============================================================================
+
+  /**
+   * Run month-end for every open account
+   * - Savings: interest on the daily end-of-day balances of the month
+   * - Current: the monthly service charge
+   * Accounts are processed one after another; a failure on one account is
+   * reported in its result and does not stop the others.
+   * Running the same period again only finishes what an earlier run left undone.
+   */
+  runMonthEnd(request: MonthEndRequest): Observable<MonthEndResponse> {
+    const periodError = this.validatePeriod(request.period);
+    if (periodError) {
+      return throwError(() => new Error(periodError));
+    }
+
+    return this.accountService.getAllAccounts().pipe(
+      map(accounts => accounts.filter(account => account.status !== AccountStatus.CLOSED)),
+      switchMap(accounts => from(accounts).pipe(
+        concatMap(account => this.processAccount(account, request.period)),
+        toArray()
+      )),
+      map(results => this.buildResponse(request.period, results))
+    );
+  }
+
+  /**
+   * Compute interest and service charge of an account for a period
+   * Interest = Σ max(end-of-day balance, 0) × rate / 100 / 365, over the days the account was open
+   */
+  calculate(account: Account, transactions: Transaction[], period: string): MonthEndCalculation {
+    const { start, end } = this.getPeriodRange(period);
+    const openedDate = new Date(account.createdDate);
+    const ledger = transactions
+      .filter(t => t.status === TransactionStatus.COMPLETED)
+      .sort((a, b) => new Date(a.transactionDate).getTime() - new Date(b.transactionDate).getTime());
+
+    let balanceSum = 0;
+    let positiveBalanceSum = 0;
+    let openDays = 0;
+
+    for (const day = new Date(start); day <= end; day.setDate(day.getDate() + 1)) {
+      const endOfDay = new Date(day.getFullYear(), day.getMonth(), day.getDate(), 23, 59, 59, 999);
+      if (endOfDay < openedDate) {
+        continue;
+      }
+      const balance = getBalanceAt(account, ledger, endOfDay);
+      balanceSum += balance;
+      positiveBalanceSum += Math.max(balance, 0);
+      openDays++;
+    }
+
+    if (openDays === 0) {
+      return { averageBalance: 0, interestAmount: 0, serviceChargeAmount: 0 };
+    }
+
+    let interestAmount = 0;
+    let serviceChargeAmount = 0;
+
+    if (account.accountType === AccountType.SAVINGS) {
+      const rate = account.interestRate || ACCOUNT_RULES.SAVINGS.INTEREST_RATE;
+      interestAmount = this.round(positiveBalanceSum * rate / 100 / MONTH_END_RULES.DAYS_IN_YEAR);
+      if (interestAmount < MONTH_END_RULES.MIN_INTEREST_CREDIT) {
+        interestAmount = 0;
+      }
+    } else {
+      serviceChargeAmount = account.monthlyServiceCharge || ACCOUNT_RULES.CURRENT.MONTHLY_SERVICE_CHARGE;
+    }
+
+    return {
+      averageBalance: this.round(balanceSum / openDays),
+      interestAmount,
+      serviceChargeAmount
+    };
+  }
+
+  /**
+   * Month-end of one account
+   * Suspended accounts take no postings; running the period again after
+   * reactivation picks them up.
+   * 1. Skip when a COMPLETED run exists for the period
+   * 2. Otherwise resume the unfinished run, or compute the amounts and create an IN_PROGRESS run
+   * 3. Post the interest credit / service charge not yet recorded on the run
+   * 4. Mark the run COMPLETED (FAILED with the error message if a step fails)
+   */
+  private processAccount(account: Account, period: string): Observable<MonthEndAccountResult> {
+    if (account.status === AccountStatus.SUSPENDED) {
+      return of(this.toResult(account, null, MonthEndResultStatus.NOT_APPLICABLE, 'Account is suspended'));
+    }
+
+    return this.findRun(account.id, period).pipe(
+      switchMap(existingRun => {
+        if (existingRun?.status === MonthEndRunStatus.COMPLETED) {
+          return of(this.toResult(account, existingRun, MonthEndResultStatus.ALREADY_PROCESSED,
+            `Already processed on ${new Date(existingRun.completedDate!).toLocaleDateString()}`));
+        }
+
+        const run$ = existingRun
+          ? of(existingRun)
+          : this.transactionService.getTransactionsByAccount(account.id).pipe(
+              map(transactions => this.calculate(account, transactions, period)),
+              switchMap(calculation =>
+                calculation.interestAmount === 0 && calculation.serviceChargeAmount === 0
+                  ? of(null)
+                  : this.createRun(account, period, calculation)
+              )
+            );
+
+        return run$.pipe(
+          switchMap(run => {
+            if (!run) {
+              return of(this.notApplicable(account));
+            }
+            return this.postInterest(run).pipe(
+              switchMap(updated => this.postServiceCharge(updated)),
+              switchMap(updated => this.updateRun(updated.id, {
+                status: MonthEndRunStatus.COMPLETED,
+                completedDate: new Date()
+              })),
+              map(completed => this.toResult(account, completed, MonthEndResultStatus.PROCESSED,
+                this.describeRun(completed))),
+              catchError(error => this.updateRun(run.id, {
+                status: MonthEndRunStatus.FAILED,
+                errorMessage: error.message
+              }).pipe(
+                catchError(() => of(run)),
+                map(failed => this.toResult(account, failed, MonthEndResultStatus.FAILED, error.message))
+              ))
+            );
+          })
+        );
+      }),
+      catchError(error => of(this.toResult(account, null, MonthEndResultStatus.FAILED, error.message)))
+    );
+  }
+
+  /**
+   * Credit the interest of the run unless it was already posted
+   */
+  private postInterest(run: MonthEndRun): Observable<MonthEndRun> {
+    if (run.interestAmount <= 0 || run.interestTransactionId) {
+      return of(run);
+    }
+    return this.postRunTransaction(
+      run,
+      TransactionType.INTEREST_CREDIT,
+      run.interestAmount,
+      `Interest credit - ${this.getPeriodLabel(run.period)}`,
+      NotificationType.INTEREST_CREDITED
+    ).pipe(
+      switchMap(transaction => this.updateRun(run.id, { interestTransactionId: transaction.id }))
+    );
+  }
+
+  /**
+   * Debit the service charge of the run unless it was already posted
+   */
+  private postServiceCharge(run: MonthEndRun): Observable<MonthEndRun> {
+    if (run.serviceChargeAmount <= 0 || run.serviceChargeTransactionId) {
+      return of(run);
+    }
+    return this.postRunTransaction(
+      run,
+      TransactionType.SERVICE_CHARGE_DEBIT,
+      run.serviceChargeAmount,
+      `Monthly service charge - ${this.getPeriodLabel(run.period)}`,
+      NotificationType.SERVICE_CHARGE_DEDUCTED
+    ).pipe(
+      switchMap(transaction => this.updateRun(run.id, { serviceChargeTransactionId: transaction.id }))
+    );
+  }
+
+  /**
+   * Post against the latest balance and notify the account holder
+   * A service charge that takes a current account below zero is followed by
+   * its overdraft fee and, when a warning threshold is passed, an OVERDRAFT_WARNING.
+   * A failed notification does not undo the posting
+   */
+  private postRunTransaction(
+    run: MonthEndRun,
+    transactionType: TransactionType,
+    amount: number,
+    remarks: string,
+    notificationType: NotificationType.INTEREST_CREDITED | NotificationType.SERVICE_CHARGE_DEDUCTED
+  ): Observable<Transaction> {
+    return this.accountService.getAccountById(run.accountId).pipe(
+      switchMap(account => this.transactionService.postBankTransaction(account, transactionType, amount, remarks).pipe(
+        switchMap(transaction => this.transactionService.postOverdraftFee(account, transaction).pipe(
+          tap(overdraftFee => this.notifyPosting(account, transaction, notificationType, overdraftFee)),
+          map(() => transaction)
+        ))
+      ))
+    );
+  }
+
+  /**
+   * Notify the account holder of a month-end posting, reporting the balance after any overdraft fee
+   */
+  private notifyPosting(
+    account: Account,
+    transaction: Transaction,
+    notificationType: NotificationType.INTEREST_CREDITED | NotificationType.SERVICE_CHARGE_DEDUCTED,
+    overdraftFee: Transaction | null
+  ): void {
+    const balance = (overdraftFee ?? transaction).balanceAfterTransaction;
+    const logError = (error: any) => console.error('Month-End Service Error: notification failed', error?.message || error);
+
+    this.notificationService.createFromTemplate(
+      { id: transaction.accountId, accountNumber: transaction.accountNumber },
+      notificationType,
+      [transaction.amount, balance],
+      {
+        transactionId: transaction.id,
+        amount: transaction.amount,
+        balance,
+        ...(overdraftFee && { overdraftFee: overdraftFee.amount })
+      }
+    ).subscribe({ error: logError });
+
+    this.notificationService.createOverdraftWarning(account, transaction, balance, overdraftFee)
+      .subscribe({ error: logError });
+  }
+
+  // ============================================================================
+  // RUN RECORDS
+  // ============================================================================
+
+  /**
+   * GET http://localhost:3000/monthEndRuns?accountId=1&period=2024-10
+   */
+  private findRun(accountId: number, period: string): Observable<MonthEndRun | null> {
+    const params = new HttpParams()
+      .set('accountId', accountId)
+      .set('period', period);
+
+    return this.http.get<MonthEndRun[]>(this.endpoints.runs, { params })
+      .pipe(
+        map(runs => runs[0] || null),
+        catchError(this.handleError)
+      );
+  }
+
+  /**
+   * POST http://localhost:3000/monthEndRuns
+   */
+  private createRun(account: Account, period: string, calculation: MonthEndCalculation): Observable<MonthEndRun> {
+    const newRun: Omit<MonthEndRun, 'id'> = {
+      accountId: account.id,
+      accountNumber: account.accountNumber,
+      period,
+      status: MonthEndRunStatus.IN_PROGRESS,
+      averageBalance: calculation.averageBalance,
+      interestAmount: calculation.interestAmount,
+      serviceChargeAmount: calculation.serviceChargeAmount,
+      startedDate: new Date(),
+      runBy: localStorage.getItem('username') || undefined
+    };
+
+    return this.http.post<MonthEndRun>(this.endpoints.runs, newRun)
+      .pipe(
+        catchError(this.handleError)
+      );
+  }
+
+  /**
+   * PATCH http://localhost:3000/monthEndRuns/:id
+   */
+  private updateRun(runId: number, updates: Partial<MonthEndRun>): Observable<MonthEndRun> {
+    return this.http.patch<MonthEndRun>(this.endpoints.runById(runId), updates)
+      .pipe(
+        catchError(this.handleError)
+      );
+  }
+
+  // ============================================================================
+  // UTILITY METHODS
+  // ============================================================================
+
+  /**
+   * Only months that have fully ended can be processed
+   */
+  validatePeriod(period: string): string | null {
+    if (!/^\d{4}-(0[1-9]|1[0-2])$/.test(period)) {
+      return 'Period must be in YYYY-MM format';
+    }
+    if (this.getPeriodRange(period).end >= new Date()) {
+      return `${this.getPeriodLabel(period)} has not ended yet`;
+    }
+    return null;
+  }
+
+  /**
+   * Label used in transaction remarks, e.g. "October 2024"
+   */
+  getPeriodLabel(period: string): string {
+    return this.getPeriodRange(period).start.toLocaleString('en-US', { month: 'long', year: 'numeric' });
+  }
+
+  /**
+   * Previous calendar month as YYYY-MM
+   */
+  getLastCompletedPeriod(today: Date = new Date()): string {
+    const lastMonth = new Date(today.getFullYear(), today.getMonth() - 1, 1);
+    return `${lastMonth.getFullYear()}-${String(lastMonth.getMonth() + 1).padStart(2, '0')}`;
+  }
+
+  private getPeriodRange(period: string): { start: Date; end: Date } {
+    const [year, month] = period.split('-').map(Number);
+    return {
+      start: new Date(year, month - 1, 1),
+      end: new Date(year, month, 0, 23, 59, 59, 999)
+    };
+  }
+
+  private buildResponse(period: string, results: MonthEndAccountResult[]): MonthEndResponse {
+    const processed = results.filter(r => r.status === MonthEndResultStatus.PROCESSED);
+
+    return {
+      period,
+      results,
+      processedCount: processed.length,
+      skippedCount: results.filter(r =>
+        r.status === MonthEndResultStatus.ALREADY_PROCESSED || r.status === MonthEndResultStatus.NOT_APPLICABLE
+      ).length,
+      failedCount: results.filter(r => r.status === MonthEndResultStatus.FAILED).length,
+      totalInterestCredited: this.round(processed.reduce((sum, r) => sum + r.interestCredited, 0)),
+      totalServiceCharged: this.round(processed.reduce((sum, r) => sum + r.serviceCharged, 0))
+    };
+  }
+
+  private toResult(
+    account: Account,
+    run: MonthEndRun | null,
+    status: MonthEndResultStatus,
+    message: string
+  ): MonthEndAccountResult {
+    return {
+      accountId: account.id,
+      accountNumber: account.accountNumber,
+      accountHolderName: account.accountHolderName,
+      accountType: account.accountType,
+      status,
+      averageBalance: run?.averageBalance ?? 0,
+      interestCredited: run?.interestTransactionId ? run.interestAmount : 0,
+      serviceCharged: run?.serviceChargeTransactionId ? run.serviceChargeAmount : 0,
+      message
+    };
+  }
+
+  private notApplicable(account: Account): MonthEndAccountResult {
+    return this.toResult(account, null, MonthEndResultStatus.NOT_APPLICABLE, 'Nothing to post for this period');
+  }
+
+  private describeRun(run: MonthEndRun): string {
+    const parts: string[] = [];
+    if (run.interestTransactionId) {
+      parts.push(`Interest ₹${run.interestAmount.toFixed(2)} credited`);
+    }
+    if (run.serviceChargeTransactionId) {
+      parts.push(`Service charge ₹${run.serviceChargeAmount.toFixed(2)} debited`);
+    }
+    return parts.join(', ');
+  }
+
+  private round(amount: number): number {
+    return Math.round(amount * 100) / 100;
+  }
+
+  /**
+   * Handle HTTP errors
+   */
+  private handleError(error: HttpErrorResponse): Observable<never> {
+    let errorMessage = 'An unknown error occurred';
+
+    if (error.error instanceof ErrorEvent) {
+      // Client-side or network error
+      errorMessage = `Client Error: ${error.error.message}`;
+    } else {
+      // Backend returned an unsuccessful response code
+      if (error.status === 0) {
+        errorMessage = 'Unable to connect to the server. Please ensure JSON Server is running on http://localhost:3000';
+      } else if (error.status === 404) {
+        errorMessage = 'Month-end run not found.';
+      } else if (error.status === 500) {
+        errorMessage = 'Server error. Please try again later.';
+      } else {
+        errorMessage = `Server Error: ${error.status} - ${error.statusText}`;
+      }
+    }
+
+    console.error('Month-End Service Error:', {
+      status: error.status,
+      message: errorMessage,
+      error: error.error,
+      url: error.url
+    });
+
+    return throwError(() => new Error(errorMessage));
+  }
+}
@@ -1,9 +1,556 @@
+// src/app/banking/services/notification.service.ts
+
 import { Injectable } from '@angular/core';
+import { HttpClient, HttpErrorResponse, HttpParams } from '@angular/common/http';
+import { Observable, Subject, forkJoin, of, throwError } from 'rxjs';
+import { catchError, map, switchMap, tap } from 'rxjs/operators';
+
+import {
+  Notification,
+  NotificationType,
+  NotificationPriority,
+  NotificationStatus,
+  NotificationMetadata,
+  CreateNotificationRequest,
+  NotificationResponse,
+  GetNotificationsRequest,
+  GetNotificationsResponse,
+  MarkNotificationRequest,
+  MarkAllNotificationsRequest,
+  NotificationPreferences,
+  NotificationChannel,
+  OutboxMessage,
+  DEFAULT_NOTIFICATION_PREFERENCES,
+  NOTIFICATION_TEMPLATES,
+  NOTIFICATION_PRIORITY_MAP
+} from '../models/notificationmodel';
+import { Account, AccountType, ACCOUNT_RULES } from '../models/account.model';
+import { Transaction } from '../models/transaction.model';
+import { getCrossedOverdraftThresholds, getOverdraftUsage } from '../store/account.state';
+import { AccountService } from './account.service';
+
+/**
+ * Arguments of the getMessage function of a notification template
+ */
+export type NotificationTemplateArgs<T extends NotificationType> =
+  Parameters<(typeof NOTIFICATION_TEMPLATES)[T]['getMessage']>;
+
+/**
+ * Sort weight per priority, most urgent first
+ */
+const PRIORITY_WEIGHT: Record<NotificationPriority, number> = {
+  [NotificationPriority.CRITICAL]: 0,
+  [NotificationPriority.HIGH]: 1,
+  [NotificationPriority.MEDIUM]: 2,
+  [NotificationPriority.LOW]: 3
+};
 
 @Injectable({
   providedIn: 'root'
 })
 export class NotificationService {
 
-  constructor() { }
+  // JSON Server Base URL
+  private readonly baseUrl = 'http://localhost:3000';
+
+  // API Endpoints
+  private readonly endpoints = {
+    notifications: `${this.baseUrl}/notifications`,
+    notificationById: (id: number) => `${this.baseUrl}/notifications/${id}`,
+    preferences: `${this.baseUrl}/notificationPreferences`,
+    preferencesById: (id: number) => `${this.baseUrl}/notificationPreferences/${id}`,
+    outbox: {
+      [NotificationChannel.EMAIL]: `${this.baseUrl}/emailOutbox`,
+      [NotificationChannel.SMS]: `${this.baseUrl}/smsOutbox`
+    }
+  };
+
+  // Emits every notification created in this session so open banners can refresh
+  private readonly notificationCreated = new Subject<Notification>();
+  readonly notificationCreated$ = this.notificationCreated.asObservable();
+
+  constructor(
+    private http: HttpClient,
+    private accountService: AccountService
+  ) {}
+
+  // ============================================================================
+  // GET OPERATIONS
+  // ============================================================================
+
+  /**
+   * Get notifications with filters and pagination
+   * GET http://localhost:3000/notifications?accountId=1&status=UNREAD&_page=1&_limit=10
+   * Total record count is read from the X-Total-Count header returned by JSON Server
+   */
+  getNotifications(request: GetNotificationsRequest): Observable<GetNotificationsResponse> {
+    const pageNumber = request.pageNumber || 1;
+    const pageSize = request.pageSize || 10;
+
+    let params = new HttpParams()
+      .set('accountId', request.accountId)
+      .set('_page', pageNumber)
+      .set('_limit', pageSize)
+      .set('_sort', 'createdDate')
+      .set('_order', 'desc');
+
+    if (request.status) {
+      params = params.set('status', request.status);
+    }
+    if (request.type) {
+      params = params.set('type', request.type);
+    }
+    if (request.priority) {
+      params = params.set('priority', request.priority);
+    }
+    if (request.startDate) {
+      params = params.set('createdDate_gte', new Date(request.startDate).toISOString());
+    }
+    if (request.endDate) {
+      params = params.set('createdDate_lte', new Date(request.endDate).toISOString());
+    }
+
+    return forkJoin({
+      page: this.http.get<Notification[]>(this.endpoints.notifications, { params, observe: 'response' })
+        .pipe(catchError(this.handleError)),
+      unreadCount: this.getUnreadCount(request.accountId)
+    }).pipe(
+      map(({ page, unreadCount }) => {
+        const notifications = this.transformNotificationDates(page.body || []);
+        const totalRecords = Number(page.headers.get('X-Total-Count')) || notifications.length;
+
+        return {
+          accountId: request.accountId,
+          notifications,
+          unreadCount,
+          totalRecords,
+          pageNumber,
+          pageSize,
+          totalPages: Math.ceil(totalRecords / pageSize)
+        };
+      })
+    );
+  }
+
+  /**
+   * Get unread, unexpired notifications of an account, most urgent first
+   * GET http://localhost:3000/notifications?accountId=1&status=UNREAD
+   */
+  getUnreadNotifications(accountId: number): Observable<Notification[]> {
+    const params = new HttpParams()
+      .set('accountId', accountId)
+      .set('status', NotificationStatus.UNREAD);
+
+    return this.http.get<Notification[]>(this.endpoints.notifications, { params })
+      .pipe(
+        map(notifications => this.transformNotificationDates(notifications)),
+        map(notifications => notifications.filter(n => !n.expiryDate || n.expiryDate > new Date())),
+        map(notifications => this.sortByPriority(notifications)),
+        catchError(this.handleError)
+      );
+  }
+
+  /**
+   * Check whether an account already has an unread notification of a type
+   * GET http://localhost:3000/notifications?accountId=1&type=LOW_BALANCE&status=UNREAD
+   */
+  hasUnreadOfType(accountId: number, type: NotificationType): Observable<boolean> {
+    const params = new HttpParams()
+      .set('accountId', accountId)
+      .set('type', type)
+      .set('status', NotificationStatus.UNREAD);
+
+    return this.http.get<Notification[]>(this.endpoints.notifications, { params })
+      .pipe(
+        map(notifications => notifications.length > 0),
+        catchError(this.handleError)
+      );
+  }
+
+  /**
+   * Count unread notifications of an account
+   * GET http://localhost:3000/notifications?accountId=1&status=UNREAD&_limit=1
+   */
+  getUnreadCount(accountId: number): Observable<number> {
+    const params = new HttpParams()
+      .set('accountId', accountId)
+      .set('status', NotificationStatus.UNREAD)
+      .set('_page', 1)
+      .set('_limit', 1);
+
+    return this.http.get<Notification[]>(this.endpoints.notifications, { params, observe: 'response' })
+      .pipe(
+        map(response => Number(response.headers.get('X-Total-Count')) || (response.body || []).length),
+        catchError(this.handleError)
+      );
+  }
+
+  /**
+   * Get the notification preferences of an account
+   * GET http://localhost:3000/notificationPreferences?accountId=1
+   * Accounts without saved preferences get DEFAULT_NOTIFICATION_PREFERENCES
+   */
+  getPreferences(accountId: number): Observable<NotificationPreferences> {
+    const params = new HttpParams().set('accountId', accountId);
+
+    return this.http.get<NotificationPreferences[]>(this.endpoints.preferences, { params })
+      .pipe(
+        map(preferences => preferences[0] || { ...DEFAULT_NOTIFICATION_PREFERENCES, accountId }),
+        catchError(this.handleError)
+      );
+  }
+
+  /**
+   * Get the messages recorded in the email or SMS outbox of an account, newest first
+   * GET http://localhost:3000/emailOutbox?accountId=1&_sort=sentDate&_order=desc
+   */
+  getOutbox(accountId: number, channel: NotificationChannel): Observable<OutboxMessage[]> {
+    const params = new HttpParams()
+      .set('accountId', accountId)
+      .set('_sort', 'sentDate')
+      .set('_order', 'desc');
+
+    return this.http.get<OutboxMessage[]>(this.endpoints.outbox[channel], { params })
+      .pipe(
+        map(messages => messages.map(message => ({ ...message, sentDate: new Date(message.sentDate) }))),
+        catchError(this.handleError)
+      );
+  }
+
+  // ============================================================================
+  // CREATE OPERATIONS
+  // ============================================================================
+
+  /**
+   * Create a notification
+   * POST http://localhost:3000/notifications
+   * Emits null when the account holder disabled this notification type
+   */
+  createNotification(request: CreateNotificationRequest): Observable<NotificationResponse | null> {
+    return this.accountService.getAccountById(request.accountId).pipe(
+      switchMap(account => this.createIfEnabled(account, request))
+    );
+  }
+
+  /**
+   * Create a notification from NOTIFICATION_TEMPLATES
+   * Title and message come from the template, priority from NOTIFICATION_PRIORITY_MAP
+   * Emits null when the account holder disabled this notification type
+   *
+   * Example:
+   *   createFromTemplate(account, NotificationType.DEPOSIT_SUCCESS, [500, 15500], { amount: 500 })
+   */
+  createFromTemplate<T extends NotificationType>(
+    account: Pick<Account, 'id' | 'accountNumber'>,
+    type: T,
+    templateArgs: NotificationTemplateArgs<T>,
+    metadata?: NotificationMetadata
+  ): Observable<NotificationResponse | null> {
+    const template = NOTIFICATION_TEMPLATES[type];
+    const getMessage = template.getMessage as (...args: NotificationTemplateArgs<T>) => string;
+
+    return this.createIfEnabled(account, {
+      accountId: account.id,
+      type,
+      priority: NOTIFICATION_PRIORITY_MAP[type],
+      title: template.title,
+      message: getMessage(...templateArgs),
+      metadata
+    });
+  }
+
+  /**
+   * OVERDRAFT_WARNING when a debit (and its overdraft fee) pushed a current account's
+   * overdraft usage past one of the account holder's warning thresholds.
+   * One warning is raised, for the highest threshold passed; emits null when none was passed.
+   */
+  createOverdraftWarning(
+    account: Account,
+    debit: Transaction,
+    currentBalance: number,
+    overdraftFee?: Transaction | null
+  ): Observable<NotificationResponse | null> {
+    if (account.accountType !== AccountType.CURRENT || currentBalance >= 0) {
+      return of(null);
+    }
+
+    return this.getPreferences(account.id).pipe(
+      switchMap(preferences => {
+        const { overdraftUsed, overdraftLimit, utilizationPercentage } =
+          getOverdraftUsage({ ...account, balance: currentBalance });
+        const crossed = getCrossedOverdraftThresholds(
+          overdraftLimit,
+          debit.balanceBeforeTransaction,
+          currentBalance,
+          preferences.overdraftWarningThresholds ?? ACCOUNT_RULES.CURRENT.OVERDRAFT_WARNING_THRESHOLDS
+        );
+
+        if (crossed.length === 0) {
+          return of(null);
+        }
+
+        return this.createFromTemplate(account, NotificationType.OVERDRAFT_WARNING, [overdraftUsed, overdraftLimit], {
+          transactionId: debit.id,
+          amount: debit.amount,
+          balance: currentBalance,
+          threshold: crossed[crossed.length - 1],
+          overdraftUsed,
+          overdraftLimit,
+          utilizationPercentage,
+          ...(overdraftFee && { overdraftFee: overdraftFee.amount }),
+          actionRequired: true,
+          actionUrl: `/banking/deposit/${account.id}`
+        });
+      })
+    );
+  }
+
+  // ============================================================================
+  // PUT/PATCH OPERATIONS
+  // ============================================================================
+
+  /**
+   * Save the notification preferences of an account
+   * PUT  http://localhost:3000/notificationPreferences/:id  (existing preferences)
+   * POST http://localhost:3000/notificationPreferences     (first save)
+   */
+  savePreferences(preferences: NotificationPreferences): Observable<NotificationPreferences> {
+    const request$ = preferences.id
+      ? this.http.put<NotificationPreferences>(this.endpoints.preferencesById(preferences.id), preferences)
+      : this.http.post<NotificationPreferences>(this.endpoints.preferences, preferences);
+
+    return request$.pipe(
+      catchError(this.handleError)
+    );
+  }
+
+  /**
+   * Mark a notification as read, archived or dismissed
+   * PATCH http://localhost:3000/notifications/:id
+   */
+  markNotification(request: MarkNotificationRequest): Observable<Notification> {
+    return this.http.patch<Notification>(
+      this.endpoints.notificationById(request.notificationId),
+      this.getStatusUpdate(request.status)
+    ).pipe(
+      map(notification => this.transformNotificationDate(notification)),
+      catchError(this.handleError)
+    );
+  }
+
+  /**
+   * Mark all unread notifications of an account (optionally of one type)
+   * Notifications already read, dismissed or archived keep their status
+   * GET  http://localhost:3000/notifications?accountId=1&status=UNREAD
+   * PATCH http://localhost:3000/notifications/:id  (for each match)
+   * Returns the updated notifications
+   */
+  markAllNotifications(request: MarkAllNotificationsRequest): Observable<Notification[]> {
+    let params = new HttpParams()
+      .set('accountId', request.accountId)
+      .set('status', NotificationStatus.UNREAD);
+
+    if (request.type) {
+      params = params.set('type', request.type);
+    }
+
+    return this.http.get<Notification[]>(this.endpoints.notifications, { params }).pipe(
+      catchError(this.handleError),
+      switchMap(notifications => {
+        if (notifications.length === 0) {
+          return of([]);
+        }
+        return forkJoin(notifications.map(notification =>
+          this.markNotification({ notificationId: notification.id, status: request.status })
+        ));
+      })
+    );
+  }
+
+  // ============================================================================
+  // DELETE OPERATIONS
+  // ============================================================================
+
+  /**
+   * Permanently delete a notification
+   * DELETE http://localhost:3000/notifications/:id
+   */
+  deleteNotification(notificationId: number): Observable<void> {
+    return this.http.delete<void>(this.endpoints.notificationById(notificationId))
+      .pipe(
+        catchError(this.handleError)
+      );
+  }
+
+  // ============================================================================
+  // UTILITY METHODS
+  // ============================================================================
+
+  /**
+   * Sort notifications by priority (CRITICAL first), newest first within a priority
+   */
+  sortByPriority(notifications: Notification[]): Notification[] {
+    return [...notifications].sort((a, b) =>
+      PRIORITY_WEIGHT[a.priority] - PRIORITY_WEIGHT[b.priority] ||
+      new Date(b.createdDate).getTime() - new Date(a.createdDate).getTime()
+    );
+  }
+
+  /**
+   * Whether the preferences allow notifications of a type
+   * Types missing from the map are enabled
+   */
+  isTypeEnabled(preferences: NotificationPreferences, type: NotificationType): boolean {
+    return preferences.notificationTypes[type] !== false;
+  }
+
+  /**
+   * Create the notification unless its type is disabled, then copy it to the
+   * email and SMS outboxes the account holder opted into
+   */
+  private createIfEnabled(
+    account: Pick<Account, 'id' | 'accountNumber'>,
+    request: CreateNotificationRequest
+  ): Observable<NotificationResponse | null> {
+    return this.getPreferences(account.id).pipe(
+      switchMap(preferences => {
+        if (!this.isTypeEnabled(preferences, request.type)) {
+          return of(null);
+        }
+        return this.postNotification(account.accountNumber, request).pipe(
+          switchMap(response =>
+            this.deliverToOutboxes(preferences, response.notification).pipe(map(() => response))
+          )
+        );
+      })
+    );
+  }
+
+  /**
+   * Record what would have been emailed or texted for a notification
+   * POST http://localhost:3000/emailOutbox
+   * POST http://localhost:3000/smsOutbox
+   * Outbox failures are logged only; the in-app notification already exists
+   */
+  private deliverToOutboxes(preferences: NotificationPreferences, notification: Notification): Observable<OutboxMessage[]> {
+    const channels = [
+      ...(preferences.emailNotifications ? [NotificationChannel.EMAIL] : []),
+      ...(preferences.smsNotifications ? [NotificationChannel.SMS] : [])
+    ];
+
+    if (channels.length === 0) {
+      return of([]);
+    }
+
+    return this.accountService.getAccountById(notification.accountId).pipe(
+      switchMap(account => forkJoin(channels.map(channel => {
+        const message: Omit<OutboxMessage, 'id'> = {
+          channel,
+          accountId: notification.accountId,
+          accountNumber: notification.accountNumber,
+          notificationId: notification.id,
+          notificationType: notification.type,
+          recipient: channel === NotificationChannel.EMAIL ? account.email : account.phone,
+          ...(channel === NotificationChannel.EMAIL && { subject: notification.title }),
+          body: notification.message,
+          sentDate: new Date()
+        };
+        return this.http.post<OutboxMessage>(this.endpoints.outbox[channel], message);
+      }))),
+      catchError(error => {
+        console.error('Notification Service Error: outbox delivery failed', error?.message || error);
+        return of([]);
+      })
+    );
+  }
+
+  /**
+   * Build and POST the notification record
+   */
+  private postNotification(accountNumber: string, request: CreateNotificationRequest): Observable<NotificationResponse> {
+    const newNotification: Omit<Notification, 'id'> = {
+      accountId: request.accountId,
+      accountNumber,
+      type: request.type,
+      priority: request.priority,
+      title: request.title,
+      message: request.message,
+      status: NotificationStatus.UNREAD,
+      ...(request.metadata && { metadata: request.metadata }),
+      createdDate: new Date()
+    };
+
+    return this.http.post<Notification>(this.endpoints.notifications, newNotification)
+      .pipe(
+        map(notification => ({
+          success: true,
+          message: 'Notification created successfully',
+          notification: this.transformNotificationDate(notification)
+        })),
+        tap(response => this.notificationCreated.next(response.notification)),
+        catchError(this.handleError)
+      );
+  }
+
+  /**
+   * Status change payload, stamping readDate when a notification is first read
+   */
+  private getStatusUpdate(status: NotificationStatus): Partial<Notification> {
+    return status === NotificationStatus.UNREAD
+      ? { status }
+      : { status, readDate: new Date() };
+  }
+
+  /**
+   * Transform notification dates from string to Date objects
+   */
+  private transformNotificationDate(notification: Notification): Notification {
+    return {
+      ...notification,
+      createdDate: new Date(notification.createdDate),
+      ...(notification.readDate && { readDate: new Date(notification.readDate) }),
+      ...(notification.expiryDate && { expiryDate: new Date(notification.expiryDate) })
+    };
+  }
+
+  /**
+   * Transform notification dates for array
+   */
+  private transformNotificationDates(notifications: Notification[]): Notification[] {
+    return notifications.map(notification => this.transformNotificationDate(notification));
+  }
+
+  /**
+   * Handle HTTP errors
+   */
+  private handleError(error: HttpErrorResponse): Observable<never> {
+    let errorMessage = 'An unknown error occurred';
+
+    if (error.error instanceof ErrorEvent) {
+      // Client-side or network error
+      errorMessage = `Client Error: ${error.error.message}`;
+    } else {
+      // Backend returned an unsuccessful response code
+      if (error.status === 0) {
+        errorMessage = 'Unable to connect to the server. Please ensure JSON Server is running on http://localhost:3000';
+      } else if (error.status === 400) {
+        errorMessage = 'Invalid request. Please check your input.';
+      } else if (error.status === 404) {
+        errorMessage = 'Notification not found.';
+      } else if (error.status === 500) {
+        errorMessage = 'Server error. Please try again later.';
+      } else {
+        errorMessage = `Server Error: ${error.status} - ${error.statusText}`;
+      }
+    }
+
+    console.error('Notification Service Error:', {
+      status: error.status,
+      message: errorMessage,
+      error: error.error,
+      url: error.url
+    });
+
+    return throwError(() => new Error(errorMessage));
+  }
 }
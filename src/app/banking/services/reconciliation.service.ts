@@ -0,0 +1,91 @@
+// src/app/banking/services/reconciliation.service.ts
+
+import { Injectable } from '@angular/core';
+import { Observable, forkJoin } from 'rxjs';
+import { map } from 'rxjs/operators';
+
+import { Account } from '../models/account.model';
+import { Transaction, TransactionStatus } from '../models/transaction.model';
+import {
+  AccountReconciliation,
+  ReconciliationReport,
+  ReconciliationStatus,
+  RECONCILIATION_RULES
+} from '../models/reconciliation.model';
+import { getLedgerBalance } from '../store/transaction.state';
+import { AccountService } from './account.service';
+import { TransactionService } from './transaction.service';
+
+@Injectable({
+  providedIn: 'root'
+})
+export class ReconciliationService {
+
+  constructor(
+    private accountService: AccountService,
+    private transactionService: TransactionService
+  ) {}
+
+  /**
+   * Reconcile every account against its ledger
+   * Mismatches are listed first, largest difference on top.
+   * GET http://localhost:3000/accounts
+   * GET http://localhost:3000/transactions
+   */
+  reconcileAccounts(): Observable<ReconciliationReport> {
+    return forkJoin({
+      accounts: this.accountService.getAllAccounts(),
+      transactions: this.transactionService.getAllTransactions()
+    }).pipe(
+      map(({ accounts, transactions }) => {
+        const results = accounts
+          .map(account => this.reconcile(
+            account,
+            transactions.filter(t => t.accountId === account.id)
+          ))
+          .sort((a, b) =>
+            (a.status === b.status ? 0 : a.status === ReconciliationStatus.MISMATCH ? -1 : 1) ||
+            Math.abs(b.difference) - Math.abs(a.difference)
+          );
+
+        const mismatches = results.filter(r => r.status === ReconciliationStatus.MISMATCH);
+
+        return {
+          generatedDate: new Date(),
+          accounts: results,
+          balancedCount: results.length - mismatches.length,
+          mismatchCount: mismatches.length,
+          totalDifference: this.round(mismatches.reduce((sum, r) => sum + r.difference, 0))
+        };
+      })
+    );
+  }
+
+  /**
+   * Compare one account's balance with the sum of its completed transactions
+   */
+  reconcile(account: Account, transactions: Transaction[]): AccountReconciliation {
+    const ledgerBalance = getLedgerBalance(transactions);
+    const difference = this.round(account.balance - ledgerBalance);
+
+    return {
+      accountId: account.id,
+      accountNumber: account.accountNumber,
+      accountHolderName: account.accountHolderName,
+      accountType: account.accountType,
+      accountStatus: account.status,
+      balance: account.balance,
+      ledgerBalance,
+      difference,
+      completedCount: transactions.filter(t => t.status === TransactionStatus.COMPLETED).length,
+      pendingCount: transactions.filter(t => t.status === TransactionStatus.PENDING).length,
+      status: Math.abs(difference) < RECONCILIATION_RULES.TOLERANCE
+        ? ReconciliationStatus.BALANCED
+        : ReconciliationStatus.MISMATCH
+    };
+  }
+
+  private round(value: number): number {
+    return Math.round(value * 100) / 100;
+  }
+}
@@ -0,0 +1,312 @@
+// src/app/banking/services/statement.service.ts
+
+import { Injectable } from '@angular/core';
+import { formatDate } from '@angular/common';
+import { Observable, forkJoin, throwError } from 'rxjs';
+import { map } from 'rxjs/operators';
+import { jsPDF } from 'jspdf';
+import autoTable from 'jspdf-autotable';
+
+import { Account } from '../models/account.model';
+import { Transaction, TransactionStatus, TransactionSummary, TransactionType } from '../models/transaction.model';
+import { AccountStatement, StatementLine, StatementRequest, STATEMENT_RULES } from '../models/statement.model';
+import { getBalanceAt, isCreditTransaction } from '../store/transaction.state';
+import { AccountService } from './account.service';
+import { TransactionService } from './transaction.service';
+
+@Injectable({
+  providedIn: 'root'
+})
+export class StatementService {
+
+  constructor(
+    private accountService: AccountService,
+    private transactionService: TransactionService
+  ) {}
+
+  /**
+   * Build the statement of an account for a date range (both days inclusive)
+   * GET http://localhost:3000/accounts/:id
+   * GET http://localhost:3000/transactions?accountId=:id
+   */
+  generateStatement(request: StatementRequest): Observable<AccountStatement> {
+    const rangeError = this.validateRange(request.startDate, request.endDate);
+    if (rangeError) {
+      return throwError(() => new Error(rangeError));
+    }
+
+    return forkJoin({
+      account: this.accountService.getAccountById(request.accountId),
+      transactions: this.transactionService.getTransactionsByAccount(request.accountId)
+    }).pipe(
+      map(({ account, transactions }) =>
+        this.buildStatement(account, transactions, request.startDate, request.endDate)
+      )
+    );
+  }
+
+  /**
+   * Opening balance is the balance at the start of the first day; every completed
+   * transaction in the range is listed with a running balance, so the closing
+   * balance always equals the opening balance plus the listed credits minus debits.
+   */
+  buildStatement(account: Account, transactions: Transaction[], startDate: Date, endDate: Date): AccountStatement {
+    const start = new Date(startDate.getFullYear(), startDate.getMonth(), startDate.getDate());
+    const end = new Date(endDate.getFullYear(), endDate.getMonth(), endDate.getDate(), 23, 59, 59, 999);
+
+    const ledger = transactions
+      .filter(t => t.status === TransactionStatus.COMPLETED)
+      .sort((a, b) => new Date(a.transactionDate).getTime() - new Date(b.transactionDate).getTime());
+
+    const openingBalance = getBalanceAt(account, ledger, new Date(start.getTime() - 1));
+
+    let balance = openingBalance;
+    const inRange = ledger.filter(t => {
+      const date = new Date(t.transactionDate);
+      return date >= start && date <= end;
+    });
+    const lines: StatementLine[] = inRange.map(transaction => {
+      const credit = isCreditTransaction(transaction) ? transaction.amount : 0;
+      const debit = isCreditTransaction(transaction) ? 0 : transaction.amount;
+      balance = this.round(balance + credit - debit);
+
+      return {
+        transactionId: transaction.id,
+        transactionDate: new Date(transaction.transactionDate),
+        transactionType: transaction.transactionType,
+        description: this.describe(transaction),
+        credit,
+        debit,
+        balance
+      };
+    });
+
+    return {
+      account,
+      startDate: start,
+      endDate: end,
+      openingBalance,
+      closingBalance: balance,
+      lines,
+      summary: this.summarize(account.id, inRange, openingBalance, balance, start, end),
+      generatedDate: new Date()
+    };
+  }
+
+  validateRange(startDate: Date | null, endDate: Date | null): string | null {
+    if (!startDate || !endDate) {
+      return 'Select both a start and an end date';
+    }
+    if (startDate > endDate) {
+      return 'The start date must be on or before the end date';
+    }
+    const days = (endDate.getTime() - startDate.getTime()) / (24 * 60 * 60 * 1000);
+    if (days > STATEMENT_RULES.MAX_RANGE_DAYS) {
+      return `A statement can cover at most ${STATEMENT_RULES.MAX_RANGE_DAYS} days`;
+    }
+    return null;
+  }
+
+  // ============================================================================
+  // EXPORT
+  // ============================================================================
+
+  /**
+   * Download the statement as a CSV file
+   */
+  exportCsv(statement: AccountStatement): void {
+    const { account, summary } = statement;
+    const rows: (string | number)[][] = [
+      ['Account Statement'],
+      ['Account Number', account.accountNumber],
+      ['Account Holder', account.accountHolderName],
+      ['Account Type', account.accountType],
+      ['Period', this.formatDay(statement.startDate), this.formatDay(statement.endDate)],
+      ['Opening Balance', this.formatAmount(statement.openingBalance)],
+      [],
+      ['Date', 'Type', 'Description', 'Credit', 'Debit', 'Balance'],
+      ...statement.lines.map(line => [
+        this.formatDateTime(line.transactionDate),
+        line.transactionType,
+        line.description,
+        line.credit ? this.formatAmount(line.credit) : '',
+        line.debit ? this.formatAmount(line.debit) : '',
+        this.formatAmount(line.balance)
+      ]),
+      [],
+      ['Closing Balance', this.formatAmount(statement.closingBalance)],
+      ['Total Deposits', this.formatAmount(summary.totalDeposits)],
+      ['Total Withdrawals', this.formatAmount(summary.totalWithdrawals)],
+      ['Interest Credited', this.formatAmount(summary.totalInterestCredited)],
+      ['Service Charges', this.formatAmount(summary.totalServiceCharges)],
+      ['Net Change', this.formatAmount(summary.netBalance)]
+    ];
+
+    const csv = rows.map(row => row.map(cell => this.toCsvCell(cell)).join(',')).join('\r\n');
+    this.download(new Blob([csv], { type: 'text/csv;charset=utf-8' }), this.getFileName(statement, 'csv'));
+  }
+
+  /**
+   * Render the statement to a PDF in the browser and download it
+   */
+  exportPdf(statement: AccountStatement): void {
+    const { account, summary } = statement;
+    const doc = new jsPDF({ unit: 'pt', format: 'a4' });
+
+    doc.setFontSize(16);
+    doc.text('Account Statement', 40, 50);
+    doc.setFontSize(10);
+    doc.text(`${account.accountHolderName} - ${account.accountNumber} (${account.accountType})`, 40, 70);
+    doc.text(`Period: ${this.formatDay(statement.startDate)} to ${this.formatDay(statement.endDate)}`, 40, 85);
+    doc.text(`Generated: ${this.formatDateTime(statement.generatedDate)}`, 40, 100);
+
+    autoTable(doc, {
+      startY: 115,
+      head: [['Opening Balance', 'Total Credits', 'Total Debits', 'Closing Balance']],
+      body: [[
+        this.formatAmount(statement.openingBalance),
+        this.formatAmount(summary.totalDeposits + summary.totalInterestCredited),
+        this.formatAmount(summary.totalWithdrawals + summary.totalServiceCharges),
+        this.formatAmount(statement.closingBalance)
+      ]],
+      theme: 'grid'
+    });
+
+    autoTable(doc, {
+      head: [['Date', 'Type', 'Description', 'Credit (INR)', 'Debit (INR)', 'Balance (INR)']],
+      body: statement.lines.length > 0
+        ? statement.lines.map(line => [
+            this.formatDateTime(line.transactionDate),
+            line.transactionType.replace(/_/g, ' '),
+            line.description,
+            line.credit ? this.formatAmount(line.credit) : '',
+            line.debit ? this.formatAmount(line.debit) : '',
+            this.formatAmount(line.balance)
+          ])
+        : [[{ content: 'No transactions in this period', colSpan: 6 }]],
+      columnStyles: {
+        3: { halign: 'right' },
+        4: { halign: 'right' },
+        5: { halign: 'right' }
+      },
+      styles: { fontSize: 8 },
+      headStyles: { fillColor: [63, 81, 181] }
+    });
+
+    autoTable(doc, {
+      body: [
+        ['Deposits', this.formatAmount(summary.totalDeposits)],
+        ['Withdrawals', this.formatAmount(summary.totalWithdrawals)],
+        ['Interest Credited', this.formatAmount(summary.totalInterestCredited)],
+        ['Service Charges', this.formatAmount(summary.totalServiceCharges)],
+        ['Net Change', this.formatAmount(summary.netBalance)]
+      ],
+      tableWidth: 250,
+      columnStyles: { 1: { halign: 'right' } },
+      theme: 'plain'
+    });
+
+    doc.save(this.getFileName(statement, 'pdf'));
+  }
+
+  // ============================================================================
+  // UTILITY METHODS
+  // ============================================================================
+
+  /**
+   * TransactionSummary totals of the listed transactions
+   * - Deposits: deposits, incoming transfers, reversed withdrawals and fees, and the opening deposit
+   * - Withdrawals: withdrawals, outgoing transfers, reversed deposits and the closing payout
+   * - Service charges: monthly service charges and overdraft fees
+   */
+  private summarize(
+    accountId: number,
+    transactions: Transaction[],
+    openingBalance: number,
+    closingBalance: number,
+    startDate: Date,
+    endDate: Date
+  ): TransactionSummary {
+    const summary: TransactionSummary = {
+      accountId,
+      totalDeposits: 0,
+      totalWithdrawals: 0,
+      totalInterestCredited: 0,
+      totalServiceCharges: 0,
+      netBalance: this.round(closingBalance - openingBalance),
+      period: { startDate, endDate }
+    };
+
+    for (const transaction of transactions) {
+      switch (transaction.transactionType) {
+        case TransactionType.INTEREST_CREDIT:
+          summary.totalInterestCredited += transaction.amount;
+          break;
+        case TransactionType.SERVICE_CHARGE_DEBIT:
+        case TransactionType.OVERDRAFT_FEE:
+          summary.totalServiceCharges += transaction.amount;
+          break;
+        default:
+          if (isCreditTransaction(transaction)) {
+            summary.totalDeposits += transaction.amount;
+          } else {
+            summary.totalWithdrawals += transaction.amount;
+          }
+      }
+    }
+
+    return {
+      ...summary,
+      totalDeposits: this.round(summary.totalDeposits),
+      totalWithdrawals: this.round(summary.totalWithdrawals),
+      totalInterestCredited: this.round(summary.totalInterestCredited),
+      totalServiceCharges: this.round(summary.totalServiceCharges)
+    };
+  }
+
+  private describe(transaction: Transaction): string {
+    const counterparty = transaction.counterpartyAccountNumber
+      ? `${isCreditTransaction(transaction) ? 'From' : 'To'} ${transaction.counterpartyAccountNumber}`
+      : '';
+    return [transaction.remarks, counterparty].filter(Boolean).join(' - ');
+  }
+
+  private getFileName(statement: AccountStatement, extension: string): string {
+    const from = formatDate(statement.startDate, 'yyyy-MM-dd', 'en-US');
+    const to = formatDate(statement.endDate, 'yyyy-MM-dd', 'en-US');
+    return `statement-${statement.account.accountNumber}-${from}-to-${to}.${extension}`;
+  }
+
+  private download(blob: Blob, fileName: string): void {
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = fileName;
+    link.click();
+    URL.revokeObjectURL(url);
+  }
+
+  /**
+   * Quote a CSV cell when it contains a separator, quote or line break
+   */
+  private toCsvCell(value: string | number): string {
+    const text = String(value ?? '');
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  }
+
+  private formatAmount(value: number): string {
+    return value.toFixed(2);
+  }
+
+  private formatDay(date: Date): string {
+    return formatDate(date, 'dd MMM yyyy', 'en-US');
+  }
+
+  private formatDateTime(date: Date): string {
+    return formatDate(date, 'dd MMM yyyy HH:mm', 'en-US');
+  }
+
+  private round(value: number): number {
+    return Math.round(value * 100) / 100;
+  }
+}
@@ -1,9 +1,704 @@
+// src/app/banking/services/transaction.service.ts
+
 import { Injectable } from '@angular/core';
+import { HttpClient, HttpErrorResponse, HttpParams } from '@angular/common/http';
+import { Observable, forkJoin, of, throwError } from 'rxjs';
+import { catchError, map, switchMap, delay } from 'rxjs/operators';
+
+import {
+  Transaction,
+  TransactionType,
+  TransactionStatus,
+  DepositRequest,
+  DepositResponse,
+  WithdrawalRequest,
+  WithdrawalResponse,
+  TransactionHistoryRequest,
+  TransactionHistoryResponse,
+  TransferRequest,
+  TransferResponse,
+  ReversalResponse,
+  CREDIT_TRANSACTION_TYPES,
+  REVERSAL_TRANSACTION_TYPES,
+  TRANSACTION_RULES
+} from '../models/transaction.model';
+import { Account, AccountType, AccountStatus, ACCOUNT_RULES } from '../models/account.model';
+import { AccountService } from './account.service';
 
 @Injectable({
   providedIn: 'root'
 })
 export class TransactionService {
 
-  constructor() { }
+  // JSON Server Base URL
+  private readonly baseUrl = 'http://localhost:3000';
+
+  // API Endpoints
+  private readonly endpoints = {
+    transactions: `${this.baseUrl}/transactions`,
+    transactionById: (id: number) => `${this.baseUrl}/transactions/${id}`
+  };
+
+  constructor(
+    private http: HttpClient,
+    private accountService: AccountService
+  ) {}
+
+  // ============================================================================
+  // GET OPERATIONS
+  // ============================================================================
+
+  /**
+   * Get a single transaction
+   * GET http://localhost:3000/transactions/:id
+   */
+  getTransactionById(transactionId: number): Observable<Transaction> {
+    return this.http.get<Transaction>(this.endpoints.transactionById(transactionId))
+      .pipe(
+        map(transaction => this.transformTransactionDate(transaction)),
+        catchError(this.handleError)
+      );
+  }
+
+  /**
+   * Get every transaction of every account
+   * GET http://localhost:3000/transactions
+   */
+  getAllTransactions(): Observable<Transaction[]> {
+    return this.http.get<Transaction[]>(this.endpoints.transactions)
+      .pipe(
+        map(transactions => this.transformTransactionDates(transactions)),
+        catchError(this.handleError)
+      );
+  }
+
+  /**
+   * Get all transactions of an account, newest first
+   * GET http://localhost:3000/transactions?accountId=1&_sort=transactionDate&_order=desc
+   */
+  getTransactionsByAccount(accountId: number): Observable<Transaction[]> {
+    const params = new HttpParams()
+      .set('accountId', accountId)
+      .set('_sort', 'transactionDate')
+      .set('_order', 'desc');
+
+    return this.http.get<Transaction[]>(this.endpoints.transactions, { params })
+      .pipe(
+        map(transactions => this.transformTransactionDates(transactions)),
+        catchError(this.handleError)
+      );
+  }
+
+  /**
+   * Get a page of transaction history
+   * GET http://localhost:3000/transactions?accountId=1&_page=1&_limit=10&_sort=transactionDate&_order=desc
+   * Total record count is read from the X-Total-Count header returned by JSON Server
+   */
+  getTransactionHistory(request: TransactionHistoryRequest): Observable<TransactionHistoryResponse> {
+    const pageNumber = request.pageNumber || 1;
+    const pageSize = request.pageSize || 10;
+
+    let params = new HttpParams()
+      .set('accountId', request.accountId)
+      .set('_page', pageNumber)
+      .set('_limit', pageSize)
+      .set('_sort', 'transactionDate')
+      .set('_order', 'desc');
+
+    if (request.transactionType) {
+      params = params.set('transactionType', request.transactionType);
+    }
+    if (request.startDate) {
+      params = params.set('transactionDate_gte', this.startOfDay(request.startDate).toISOString());
+    }
+    if (request.endDate) {
+      params = params.set('transactionDate_lte', this.endOfDay(request.endDate).toISOString());
+    }
+
+    return this.http.get<Transaction[]>(this.endpoints.transactions, { params, observe: 'response' })
+      .pipe(
+        map(response => {
+          const transactions = this.transformTransactionDates(response.body || []);
+          const totalRecords = Number(response.headers.get('X-Total-Count')) || transactions.length;
+
+          return {
+            accountId: request.accountId,
+            transactions,
+            totalRecords,
+            pageNumber,
+            pageSize,
+            totalPages: Math.ceil(totalRecords / pageSize)
+          };
+        }),
+        catchError(this.handleError)
+      );
+  }
+
+  /**
+   * Sum of today's completed withdrawals and outgoing transfers for an account
+   * GET http://localhost:3000/transactions?accountId=1&transactionType=WITHDRAWAL&transactionType=TRANSFER_OUT&transactionDate_gte=...
+   */
+  getWithdrawnToday(accountId: number): Observable<number> {
+    const params = new HttpParams()
+      .set('accountId', accountId)
+      .append('transactionType', TransactionType.WITHDRAWAL)
+      .append('transactionType', TransactionType.TRANSFER_OUT)
+      .set('status', TransactionStatus.COMPLETED)
+      .set('transactionDate_gte', this.startOfDay(new Date()).toISOString());
+
+    return this.http.get<Transaction[]>(this.endpoints.transactions, { params })
+      .pipe(
+        map(transactions => transactions.reduce((sum, t) => sum + t.amount, 0)),
+        catchError(this.handleError)
+      );
+  }
+
+  // ============================================================================
+  // DEPOSIT & WITHDRAWAL
+  // ============================================================================
+
+  /**
+   * Deposit money into an account
+   * 1. GET the account and validate against TRANSACTION_RULES
+   * 2. POST a PENDING transaction with the before/after balances
+   * 3. PATCH the account balance
+   * 4. PATCH the transaction to COMPLETED (or FAILED if step 3 fails)
+   */
+  deposit(request: DepositRequest): Observable<DepositResponse> {
+    return this.accountService.getAccountById(request.accountId).pipe(
+      switchMap(account => {
+        const validationError = this.validateDeposit(account, request.amount);
+        if (validationError) {
+          return throwError(() => new Error(validationError));
+        }
+
+        return this.accountService.postTransaction(
+          account,
+          TransactionType.DEPOSIT,
+          request.amount,
+          account.balance + request.amount,
+          request.remarks || 'Cash deposit'
+        );
+      }),
+      delay(300), // Simulate network delay
+      map(transaction => ({
+        success: true,
+        message: `₹${transaction.amount.toFixed(2)} deposited successfully`,
+        transaction,
+        currentBalance: transaction.balanceAfterTransaction
+      }))
+    );
+  }
+
+  /**
+   * Withdraw money from an account
+   * Same flow as deposit, but also checks the daily withdrawal limit,
+   * the savings per-transaction limit and the overdraft / minimum balance rules
+   */
+  withdraw(request: WithdrawalRequest): Observable<WithdrawalResponse> {
+    return this.accountService.getAccountById(request.accountId).pipe(
+      switchMap(account =>
+        this.getWithdrawnToday(account.id).pipe(
+          switchMap(withdrawnToday => {
+            const validationError = this.validateWithdrawal(account, request.amount, withdrawnToday);
+            if (validationError) {
+              return throwError(() => new Error(validationError));
+            }
+
+            return this.accountService.postTransaction(
+              account,
+              TransactionType.WITHDRAWAL,
+              request.amount,
+              account.balance - request.amount,
+              request.remarks || 'Cash withdrawal'
+            ).pipe(
+              switchMap(transaction =>
+                this.postOverdraftFee(account, transaction).pipe(
+                  map(overdraftFee => ({ account, transaction, overdraftFee }))
+                )
+              )
+            );
+          })
+        )
+      ),
+      delay(300), // Simulate network delay
+      map(({ account, transaction, overdraftFee }) => {
+        const currentBalance = (overdraftFee ?? transaction).balanceAfterTransaction;
+        return {
+          success: true,
+          message: overdraftFee
+            ? `₹${transaction.amount.toFixed(2)} withdrawn successfully (overdraft fee ₹${overdraftFee.amount.toFixed(2)})`
+            : `₹${transaction.amount.toFixed(2)} withdrawn successfully`,
+          transaction,
+          currentBalance,
+          availableBalance: this.getAvailableBalance({ ...account, balance: currentBalance }),
+          ...(overdraftFee && { overdraftFee })
+        };
+      })
+    );
+  }
+
+  /**
+   * Reverse a completed deposit, withdrawal or overdraft fee
+   * 1. GET the transaction and make sure it has not been reversed yet
+   * 2. GET the account; undoing a deposit follows the minimum balance / overdraft rules
+   * 3. Post the compensating entry from REVERSAL_TRANSACTION_TYPES that moves the balance back
+   * 4. Link the original entry to its reversal
+   * The original entry stays COMPLETED, so statements and reconciliation
+   * show both the movement and its reversal.
+   */
+  reverseTransaction(transactionId: number, reason: string): Observable<ReversalResponse> {
+    return forkJoin({
+      transaction: this.getTransactionById(transactionId),
+      reversals: this.getReversals(transactionId)
+    }).pipe(
+      switchMap(({ transaction, reversals }) => {
+        if (transaction.status !== TransactionStatus.COMPLETED) {
+          return throwError(() => new Error(`Only completed transactions can be reversed. This one is ${transaction.status}.`));
+        }
+        const reversalType = REVERSAL_TRANSACTION_TYPES[transaction.transactionType];
+        if (!reversalType) {
+          return throwError(() => new Error('Only deposits, withdrawals and overdraft fees can be reversed'));
+        }
+        if (transaction.linkedTransactionId || reversals.length > 0) {
+          return throwError(() => new Error(`Transaction #${transaction.id} has already been reversed`));
+        }
+
+        return this.accountService.getAccountById(transaction.accountId).pipe(
+          switchMap(account => {
+            if (account.status !== AccountStatus.ACTIVE) {
+              return throwError(() => new Error(`Account ${account.accountNumber} is ${account.status}. Transactions are not allowed.`));
+            }
+            const isCredit = CREDIT_TRANSACTION_TYPES.includes(transaction.transactionType);
+            const balanceError = isCredit ? this.validateDebit(account, transaction.amount) : null;
+            if (balanceError) {
+              return throwError(() => new Error(balanceError));
+            }
+
+            return this.accountService.postTransaction(
+              account,
+              reversalType,
+              transaction.amount,
+              Math.round((account.balance + (isCredit ? -transaction.amount : transaction.amount)) * 100) / 100,
+              `Reversal of transaction #${transaction.id}: ${reason}`,
+              { linkedTransactionId: transaction.id }
+            ).pipe(
+              switchMap(reversal => this.linkTransaction(transaction, reversal.id, {
+                remarks: `${transaction.remarks ? transaction.remarks + ' | ' : ''}Reversed: ${reason}`
+              }).pipe(
+                map(reversedTransaction => ({ reversal, reversedTransaction }))
+              ))
+            );
+          })
+        );
+      }),
+      map(({ reversal, reversedTransaction }) => ({
+        success: true,
+        message: `Transaction #${reversedTransaction.id} of ₹${reversal.amount.toFixed(2)} reversed`,
+        transaction: reversal,
+        reversedTransaction,
+        currentBalance: reversal.balanceAfterTransaction
+      }))
+    );
+  }
+
+  /**
+   * Reversal entries posted against a transaction
+   * GET http://localhost:3000/transactions?linkedTransactionId=1&status=COMPLETED&transactionType=DEPOSIT_REVERSAL&...
+   */
+  getReversals(transactionId: number): Observable<Transaction[]> {
+    let params = new HttpParams()
+      .set('linkedTransactionId', transactionId)
+      .set('status', TransactionStatus.COMPLETED);
+    for (const reversalType of Object.values(REVERSAL_TRANSACTION_TYPES)) {
+      params = params.append('transactionType', reversalType);
+    }
+
+
+    return this.http.get<Transaction[]>(this.endpoints.transactions, { params })
+      .pipe(
+        map(transactions => this.transformTransactionDates(transactions)),
+        catchError(this.handleError)
+      );
+  }
+
+  /**
+   * Transfer money between two accounts, identified by account number
+   * 1. GET both accounts and validate (the source leg follows the withdrawal rules,
+   *    including the daily limit shared with withdrawals)
+   * 2. Post the TRANSFER_OUT leg on the source account
+   * 3. Post the TRANSFER_IN leg on the destination account
+   * 4. Link the two legs and charge the overdraft fee if the source went below zero
+   * If step 3 fails, any credit left on the destination is taken back and then the
+   * debit is rolled back, so money never leaves one account without arriving in the
+   * other, and never arrives without leaving.
+   */
+  transfer(request: TransferRequest): Observable<TransferResponse> {
+    return forkJoin({
+      source: this.accountService.getAccountByNumber(request.fromAccountNumber),
+      destination: this.accountService.getAccountByNumber(request.toAccountNumber)
+    }).pipe(
+      switchMap(({ source, destination }) =>
+        this.getWithdrawnToday(source.id).pipe(
+          map(withdrawnToday => ({ source, destination, withdrawnToday }))
+        )
+      ),
+      switchMap(({ source, destination, withdrawnToday }) => {
+        const validationError = this.validateTransfer(source, destination, request.amount, withdrawnToday);
+        if (validationError) {
+          return throwError(() => new Error(validationError));
+        }
+
+        const transferReference = `TRF${Date.now()}`;
+        const remarks = request.remarks || `Transfer ${transferReference}`;
+
+        return this.accountService.postTransaction(
+          source,
+          TransactionType.TRANSFER_OUT,
+          request.amount,
+          source.balance - request.amount,
+          remarks,
+          { transferReference, counterpartyAccountNumber: destination.accountNumber }
+        ).pipe(
+          switchMap(debit =>
+            this.accountService.postTransaction(
+              destination,
+              TransactionType.TRANSFER_IN,
+              request.amount,
+              destination.balance + request.amount,
+              remarks,
+              { transferReference, counterpartyAccountNumber: source.accountNumber, linkedTransactionId: debit.id }
+            ).pipe(
+              catchError(error => this.rollbackTransferCredit(destination, debit, error).pipe(
+                switchMap(creditError => this.rollbackTransferDebit(debit, creditError))
+              )),
+              switchMap(credit => this.linkTransaction(debit, credit.id).pipe(
+                switchMap(linkedDebit => this.postOverdraftFee(source, linkedDebit).pipe(
+                  map(overdraftFee => ({ transferReference, debit: linkedDebit, credit, overdraftFee }))
+                ))
+              ))
+            )
+          )
+        );
+      }),
+      delay(300), // Simulate network delay
+      map(({ transferReference, debit, credit, overdraftFee }) => ({
+        success: true,
+        message: `₹${debit.amount.toFixed(2)} transferred to ${credit.accountNumber}`,
+        transferReference,
+        debitTransaction: debit,
+        creditTransaction: credit,
+        ...(overdraftFee && { overdraftFee }),
+        sourceBalance: (overdraftFee ?? debit).balanceAfterTransaction,
+        destinationBalance: credit.balanceAfterTransaction
+      }))
+    );
+  }
+
+  /**
+   * Post a bank-initiated transaction such as interest, service charges or fees
+   * Customer limits (minimum amounts, daily limit, minimum balance) do not apply;
+   * CREDIT_TRANSACTION_TYPES add the amount, every other type deducts it
+   */
+  postBankTransaction(
+    account: Account,
+    transactionType: TransactionType,
+    amount: number,
+    remarks: string
+  ): Observable<Transaction> {
+    const signedAmount = CREDIT_TRANSACTION_TYPES.includes(transactionType) ? amount : -amount;
+    const balanceAfterTransaction = Math.round((account.balance + signedAmount) * 100) / 100;
+    return this.accountService.postTransaction(account, transactionType, amount, balanceAfterTransaction, remarks);
+  }
+
+  /**
+   * Post the overdraft fee of a debit (withdrawal, transfer, service charge) that took
+   * a current account below zero. Emits null when no fee is due.
+   * The debit itself stands even if the fee cannot be posted
+   */
+  postOverdraftFee(account: Account, withdrawal: Transaction): Observable<Transaction | null> {
+    const fee = this.calculateOverdraftFee(withdrawal.balanceBeforeTransaction, withdrawal.balanceAfterTransaction);
+    if (account.accountType !== AccountType.CURRENT || fee <= 0) {
+      return of(null);
+    }
+
+    return this.postBankTransaction(
+      { ...account, balance: withdrawal.balanceAfterTransaction },
+      TransactionType.OVERDRAFT_FEE,
+      fee,
+      `Overdraft fee (${TRANSACTION_RULES.OVERDRAFT_FEE_PERCENTAGE}%) - Transaction #${withdrawal.id}`
+    ).pipe(
+      catchError(error => {
+        console.error('Transaction Service Error: overdraft fee not posted', error?.message || error);
+        return of(null);
+      })
+    );
+  }
+
+  // ============================================================================
+  // VALIDATION
+  // ============================================================================
+
+  /**
+   * Validate a deposit against account status and TRANSACTION_RULES
+   * Returns an error message, or null when the deposit is allowed
+   */
+  validateDeposit(account: Account, amount: number): string | null {
+    if (account.status !== AccountStatus.ACTIVE) {
+      return `Account ${account.accountNumber} is ${account.status}. Transactions are not allowed.`;
+    }
+    if (!amount || amount < TRANSACTION_RULES.MIN_DEPOSIT_AMOUNT) {
+      return `Minimum deposit amount is ₹${TRANSACTION_RULES.MIN_DEPOSIT_AMOUNT}`;
+    }
+    if (amount > TRANSACTION_RULES.MAX_DEPOSIT_AMOUNT) {
+      return `Maximum deposit amount is ₹${TRANSACTION_RULES.MAX_DEPOSIT_AMOUNT}`;
+    }
+    return null;
+  }
+
+  /**
+   * Validate a withdrawal against account status, TRANSACTION_RULES and ACCOUNT_RULES
+   * - Savings: per-transaction limit, balance may not drop below the minimum balance
+   * - Current: balance may go negative up to the overdraft limit
+   * Returns an error message, or null when the withdrawal is allowed
+   */
+  validateWithdrawal(account: Account, amount: number, withdrawnToday: number = 0): string | null {
+    if (account.status !== AccountStatus.ACTIVE) {
+      return `Account ${account.accountNumber} is ${account.status}. Transactions are not allowed.`;
+    }
+    if (!amount || amount < TRANSACTION_RULES.MIN_WITHDRAWAL_AMOUNT) {
+      return `Minimum withdrawal amount is ₹${TRANSACTION_RULES.MIN_WITHDRAWAL_AMOUNT}`;
+    }
+    if (withdrawnToday + amount > TRANSACTION_RULES.DAILY_WITHDRAWAL_LIMIT) {
+      const remaining = Math.max(TRANSACTION_RULES.DAILY_WITHDRAWAL_LIMIT - withdrawnToday, 0);
+      return `Daily withdrawal limit of ₹${TRANSACTION_RULES.DAILY_WITHDRAWAL_LIMIT} exceeded. Remaining today: ₹${remaining}`;
+    }
+
+    if (account.accountType === AccountType.SAVINGS && amount > ACCOUNT_RULES.SAVINGS.WITHDRAWAL_LIMIT) {
+      return `Savings accounts can withdraw at most ₹${ACCOUNT_RULES.SAVINGS.WITHDRAWAL_LIMIT} per transaction`;
+    }
+    const balanceError = this.validateDebit(account, amount);
+    if (balanceError) {
+      return balanceError;
+    }
+
+    if (account.accountType === AccountType.CURRENT) {
+      const overdraftLimit = account.overdraftLimit ?? ACCOUNT_RULES.CURRENT.OVERDRAFT_LIMIT;
+      const balanceAfter = account.balance - amount;
+      const overdraftFee = this.calculateOverdraftFee(account.balance, balanceAfter);
+      if (balanceAfter - overdraftFee < -overdraftLimit) {
+        return `Insufficient funds. The overdraft fee of ₹${overdraftFee.toFixed(2)} would exceed the overdraft limit of ₹${overdraftLimit}`;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Validate a debit against the balance rules only
+   * - Savings: balance may not drop below the minimum balance
+   * - Current: balance may go negative up to the overdraft limit
+   * Used for withdrawals and for reversing a deposit
+   * Returns an error message, or null when the debit is allowed
+   */
+  validateDebit(account: Account, amount: number): string | null {
+    if (account.status !== AccountStatus.ACTIVE) {
+      return `Account ${account.accountNumber} is ${account.status}. Transactions are not allowed.`;
+    }
+    if (account.accountType === AccountType.SAVINGS) {
+      if (account.balance - amount < account.minBalance) {
+        return `Insufficient balance. A minimum balance of ₹${account.minBalance} must be maintained`;
+      }
+    } else {
+      const overdraftLimit = account.overdraftLimit ?? ACCOUNT_RULES.CURRENT.OVERDRAFT_LIMIT;
+      if (account.balance - amount < -overdraftLimit) {
+        return `Insufficient funds. Available balance including overdraft is ₹${this.getAvailableBalance(account)}`;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Validate a transfer
+   * The source account follows the withdrawal rules; the destination must be a different, ACTIVE account
+   * Returns an error message, or null when the transfer is allowed
+   */
+  validateTransfer(source: Account, destination: Account, amount: number, withdrawnToday: number = 0): string | null {
+    if (source.id === destination.id) {
+      return 'Source and destination accounts must be different';
+    }
+    if (destination.status !== AccountStatus.ACTIVE) {
+      return `Account ${destination.accountNumber} is ${destination.status} and cannot receive transfers.`;
+    }
+    return this.validateWithdrawal(source, amount, withdrawnToday);
+  }
+
+  /**
+   * OVERDRAFT_FEE_PERCENTAGE of the overdraft newly drawn when the balance
+   * moves from balanceBefore to balanceAfter; zero when no new overdraft is used
+   */
+  calculateOverdraftFee(balanceBefore: number, balanceAfter: number): number {
+    const newlyDrawn = Math.max(-balanceAfter, 0) - Math.max(-balanceBefore, 0);
+    if (newlyDrawn <= 0) {
+      return 0;
+    }
+    return Math.round(newlyDrawn * TRANSACTION_RULES.OVERDRAFT_FEE_PERCENTAGE) / 100;
+  }
+
+  // ============================================================================
+  // UTILITY METHODS
+  // ============================================================================
+
+  /**
+   * Take back the credit of a transfer whose TRANSFER_IN leg failed after the
+   * destination balance was raised (postTransaction could not move it back).
+   * Emits the error to report once the destination balance is back where it started;
+   * fails, leaving the debit in place, when the credit cannot be taken back.
+   */
+  private rollbackTransferCredit(destination: Account, debit: Transaction, error: Error): Observable<Error> {
+    const creditedBalance = Math.round((destination.balance + debit.amount) * 100) / 100;
+
+    return this.accountService.getAccountById(destination.id).pipe(
+      switchMap(current => current.balance === creditedBalance
+        ? this.accountService.updateAccountBalance(destination.id, destination.balance, creditedBalance).pipe(
+            map(() => new Error(`The credit to ${destination.accountNumber} could not be completed.`))
+          )
+        : of(error)
+      ),
+      catchError(() => throwError(() => new Error(
+        `Transfer failed after ₹${debit.amount.toFixed(2)} was credited to ${destination.accountNumber}, ` +
+        `and the credit could not be taken back automatically. Please contact support with reference ${debit.transferReference}.`
+      )))
+    );
+  }
+
+  /**
+   * Undo the debit leg of a transfer whose credit leg failed
+   * Restores the source balance and marks the TRANSFER_OUT leg REVERSED,
+   * then fails with the original error
+   */
+  private rollbackTransferDebit(debit: Transaction, error: Error): Observable<never> {
+    const updates = {
+      status: TransactionStatus.REVERSED,
+      remarks: `${debit.remarks ? debit.remarks + ' | ' : ''}Reversed: transfer to ${debit.counterpartyAccountNumber} failed`
+    };
+
+    return this.accountService.getAccountById(debit.accountId).pipe(
+      switchMap(account =>
+        this.accountService.updateAccountBalance(account.id, Math.round((account.balance + debit.amount) * 100) / 100)
+      ),
+      catchError(() => throwError(() => new Error(
+        `Transfer failed and ₹${debit.amount.toFixed(2)} debited from ${debit.accountNumber} could not be returned automatically. ` +
+        `Please contact support with reference ${debit.transferReference}.`
+      ))),
+      switchMap(() =>
+        this.http.patch<Transaction>(this.endpoints.transactionById(debit.id), updates).pipe(
+          // The money is back; a stale ledger status is logged but does not hide the original error
+          catchError(patchError => {
+            console.error('Transaction Service Error: debit leg not marked REVERSED', patchError?.message || patchError);
+            return of(null);
+          })
+        )
+      ),
+      switchMap(() => throwError(() => new Error(
+        `Transfer failed: ${error.message} The amount debited from ${debit.accountNumber} has been returned.`
+      )))
+    );
+  }
+
+  /**
+   * Point the debit leg of a transfer at its credit leg, or a reversed entry at its reversal
+   * A failed link is logged only; the other entry already points back at this one
+   */
+  private linkTransaction(
+    transaction: Transaction,
+    linkedTransactionId: number,
+    updates: Partial<Transaction> = {}
+  ): Observable<Transaction> {
+    return this.http.patch<Transaction>(this.endpoints.transactionById(transaction.id), { ...updates, linkedTransactionId }).pipe(
+      map(linked => this.transformTransactionDate(linked)),
+      catchError(error => {
+        console.error('Transaction Service Error: transactions not linked', error?.message || error);
+        return of(transaction);
+      })
+    );
+  }
+
+  /**
+   * Available balance including the overdraft facility of current accounts
+   */
+  private getAvailableBalance(account: Account): number {
+    if (account.accountType === AccountType.CURRENT && account.overdraftLimit) {
+      return account.balance + account.overdraftLimit;
+    }
+    return account.balance;
+  }
+
+  /**
+   * Midnight at the start of the given day
+   */
+  private startOfDay(date: Date): Date {
+    const start = new Date(date);
+    start.setHours(0, 0, 0, 0);
+    return start;
+  }
+
+  /**
+   * Last millisecond of the given day
+   */
+  private endOfDay(date: Date): Date {
+    const end = new Date(date);
+    end.setHours(23, 59, 59, 999);
+    return end;
+  }
+
+  /**
+   * Transform transaction date from string to Date object
+   */
+  private transformTransactionDate(transaction: Transaction): Transaction {
+    return {
+      ...transaction,
+      transactionDate: new Date(transaction.transactionDate)
+    };
+  }
+
+  /**
+   * Transform transaction dates for array
+   */
+  private transformTransactionDates(transactions: Transaction[]): Transaction[] {
+    return transactions.map(transaction => this.transformTransactionDate(transaction));
+  }
+
+  /**
+   * Handle HTTP errors
+   */
+  private handleError(error: HttpErrorResponse): Observable<never> {
+    let errorMessage = 'An unknown error occurred';
+
+    if (error.error instanceof ErrorEvent) {
+      // Client-side or network error
+      errorMessage = `Client Error: ${error.error.message}`;
+    } else {
+      // Backend returned an unsuccessful response code
+      if (error.status === 0) {
+        errorMessage = 'Unable to connect to the server. Please ensure JSON Server is running on http://localhost:3000';
+      } else if (error.status === 400) {
+        errorMessage = 'Invalid request. Please check your input.';
+      } else if (error.status === 404) {
+        errorMessage = 'Transaction not found.';
+      } else if (error.status === 500) {
+        errorMessage = 'Server error. Please try again later.';
+      } else {
+        errorMessage = `Server Error: ${error.status} - ${error.statusText}`;
+      }
+    }
+
+    console.error('Transaction Service Error:', {
+      status: error.status,
+      message: errorMessage,
+      error: error.error,
+      url: error.url
+    });
+
+    return throwError(() => new Error(errorMessage));
+  }
 }
@@ -3,7 +3,10 @@ import {
   Account,
   CreateAccountRequest,
   CreateAccountResponse,
+  CloseAccountRequest,
   CloseAccountResponse,
+  AccountStatusChangeRequest,
+  AccountStatusChangeResponse,
   BalanceCheckResponse
 } from '../models/account.model';
 
@@ -52,19 +55,51 @@ export const createAccountFailure = createAction(
   props<{ error: string }>()
 );
 
-// Delete Account Actions
-export const deleteAccount = createAction(
-  '[Account] Delete Account',
-  props<{ accountId: number }>()
+// Close Account Actions
+export const closeAccount = createAction(
+  '[Account] Close Account',
+  props<{ request: CloseAccountRequest }>()
 );
 
-export const deleteAccountSuccess = createAction(
-  '[Account] Delete Account Success',
+export const closeAccountSuccess = createAction(
+  '[Account] Close Account Success',
   props<{ accountId: number; response: CloseAccountResponse }>()
 );
 
-export const deleteAccountFailure = createAction(
-  '[Account] Delete Account Failure',
+export const closeAccountFailure = createAction(
+  '[Account] Close Account Failure',
+  props<{ error: string }>()
+);
+
+// Suspend Account Actions
+export const suspendAccount = createAction(
+  '[Account] Suspend Account',
+  props<{ request: AccountStatusChangeRequest }>()
+);
+
+export const suspendAccountSuccess = createAction(
+  '[Account] Suspend Account Success',
+  props<{ response: AccountStatusChangeResponse }>()
+);
+
+export const suspendAccountFailure = createAction(
+  '[Account] Suspend Account Failure',
+  props<{ error: string }>()
+);
+
+// Reactivate Account Actions
+export const reactivateAccount = createAction(
+  '[Account] Reactivate Account',
+  props<{ request: AccountStatusChangeRequest }>()
+);
+
+export const reactivateAccountSuccess = createAction(
+  '[Account] Reactivate Account Success',
+  props<{ response: AccountStatusChangeResponse }>()
+);
+
+export const reactivateAccountFailure = createAction(
+  '[Account] Reactivate Account Failure',
   props<{ error: string }>()
 );
 
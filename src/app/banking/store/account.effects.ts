@@ -139,38 +139,92 @@ export class AccountEffects {
   );
 
   // ============================================================================
-  // DELETE ACCOUNT EFFECT
+  // CLOSE ACCOUNT EFFECT
   // ============================================================================
   
   /**
-   * Delete/Close an account
-   * Triggered by: deleteAccount action
+   * Close an account
+   * Triggered by: closeAccount action
    * Success: 
-   *   - Dispatches deleteAccountSuccess
+   *   - Dispatches closeAccountSuccess
    *   - Shows success notification
    * Failure: 
-   *   - Dispatches deleteAccountFailure
+   *   - Dispatches closeAccountFailure
    *   - Shows error notification
    */
-  deleteAccount$ = createEffect(() =>
+  closeAccount$ = createEffect(() =>
     this.actions$.pipe(
-      ofType(AccountActions.deleteAccount),
+      ofType(AccountActions.closeAccount),
       switchMap(action =>
-        this.accountService.closeAccount(action.accountId).pipe(
+        this.accountService.closeAccount(action.request).pipe(
           map(response => {
             this.showSuccessNotification(
               'Account Closed',
-              'Account closed successfully'
+              response.message
             );
-            return AccountActions.deleteAccountSuccess({ 
-              accountId: action.accountId,
+            return AccountActions.closeAccountSuccess({ 
+              accountId: action.request.accountId,
               response 
             });
           }),
           catchError(error => {
             const errorMessage = this.extractErrorMessage(error);
             this.showErrorNotification('Failed to close account', errorMessage);
-            return of(AccountActions.deleteAccountFailure({ error: errorMessage }));
+            return of(AccountActions.closeAccountFailure({ error: errorMessage }));
+          })
+        )
+      )
+    )
+  );
+
+  // ============================================================================
+  // SUSPEND/REACTIVATE ACCOUNT EFFECTS
+  // ============================================================================
+
+  /**
+   * Suspend an account
+   * Triggered by: suspendAccount action
+   * Success: Dispatches suspendAccountSuccess and shows a warning notification
+   * Failure: Dispatches suspendAccountFailure and shows an error notification
+   */
+  suspendAccount$ = createEffect(() =>
+    this.actions$.pipe(
+      ofType(AccountActions.suspendAccount),
+      exhaustMap(action =>
+        this.accountService.suspendAccount(action.request).pipe(
+          map(response => {
+            this.showWarningNotification('Account Suspended', response.message);
+            return AccountActions.suspendAccountSuccess({ response });
+          }),
+          catchError(error => {
+            const errorMessage = this.extractErrorMessage(error);
+            this.showErrorNotification('Failed to suspend account', errorMessage);
+            return of(AccountActions.suspendAccountFailure({ error: errorMessage }));
+          })
+        )
+      )
+    )
+  );
+
+  /**
+   * Reactivate a suspended account
+   * Triggered by: reactivateAccount action
+   * Success: Dispatches reactivateAccountSuccess and shows a success notification
+   * Failure: Dispatches reactivateAccountFailure and shows an error notification
+   */
+  reactivateAccount$ = createEffect(() =>
+    this.actions$.pipe(
+      ofType(AccountActions.reactivateAccount),
+      exhaustMap(action =>
+        this.accountService.reactivateAccount(action.request).pipe(
+          map(response => {
+            this.showSuccessNotification('Account Reactivated', response.message);
+            return AccountActions.reactivateAccountSuccess({ response });
+          }),
+          catchError(error => {
+            const errorMessage = this.extractErrorMessage(error);
+            this.showErrorNotification('Failed to reactivate account', errorMessage);
+            return of(AccountActions.reactivateAccountFailure({ error: errorMessage }));
           })
         )
       )
@@ -152,52 +152,95 @@ export const accountReducer = createReducer(
   })),
 
   // ============================================================================
-  // DELETE/CLOSE ACCOUNT
+  // CLOSE ACCOUNT
   // ============================================================================
   
   /**
-   * When deleting an account starts
+   * When closing an account starts
    * - Set loading to true
    * - Clear any previous errors
    */
-  on(AccountActions.deleteAccount, (state): AccountState => ({
+  on(AccountActions.closeAccount, (state): AccountState => ({
     ...state,
     loading: true,
     error: null
   })),
 
   /**
-   * When an account is deleted successfully
-   * - Remove the account from the accounts array
-   * - Clear selected account if it was the deleted one
+   * When an account is closed successfully
+   * - Replace it with the CLOSED account, which is kept for audit with its closure details
+   * - Update the selected account if it was the closed one
    * - Set loading to false
    * - Update lastUpdated timestamp
    * - Clear any errors
    */
-  on(AccountActions.deleteAccountSuccess, (state, { accountId }): AccountState => {
-    const updatedAccounts = state.accounts.filter(account => account.id !== accountId);
-    const selectedAccountCleared = state.selectedAccountId === accountId;
+  on(AccountActions.closeAccountSuccess, (state, { response }): AccountState => ({
+    ...state,
+    accounts: state.accounts.map(a => a.id === response.account.id ? response.account : a),
+    selectedAccount: state.selectedAccount?.id === response.account.id
+      ? response.account
+      : state.selectedAccount,
+    loading: false,
+    error: null,
+    lastUpdated: new Date()
+  })),
 
-    return {
+  /**
+   * When closing an account fails
+   * - Set loading to false
+   * - Store the error message
+   */
+  on(AccountActions.closeAccountFailure, (state, { error }): AccountState => ({
+    ...state,
+    loading: false,
+    error
+  })),
+
+  // ============================================================================
+  // SUSPEND/REACTIVATE ACCOUNT
+  // ============================================================================
+
+  /**
+   * When a status change starts
+   * - Set loading to true
+   * - Clear any previous errors
+   */
+  on(AccountActions.suspendAccount, AccountActions.reactivateAccount, (state): AccountState => ({
+    ...state,
+    loading: true,
+    error: null
+  })),
+
+  /**
+   * When a status change succeeds
+   * - Replace the account in the accounts array
+   * - Update selected account if it's the same account
+   * - Set loading to false
+   * - Update lastUpdated timestamp
+   */
+  on(
+    AccountActions.suspendAccountSuccess,
+    AccountActions.reactivateAccountSuccess,
+    (state, { response }): AccountState => ({
       ...state,
-      accounts: updatedAccounts,
-      selectedAccount: selectedAccountCleared ? null : state.selectedAccount,
-      selectedAccountId: selectedAccountCleared ? null : state.selectedAccountId,
+      accounts: state.accounts.map(a => a.id === response.account.id ? response.account : a),
+      selectedAccount: state.selectedAccount?.id === response.account.id
+        ? response.account
+        : state.selectedAccount,
       loading: false,
       error: null,
       lastUpdated: new Date()
-    };
-  }),
+    })
+  ),
 
   /**
-   * When deleting an account fails
+   * When a status change fails
    * - Set loading to false
-   * - Store the error message
+   * - Keep the account as it was; the error is shown as a toast
    */
-  on(AccountActions.deleteAccountFailure, (state, { error }): AccountState => ({
+  on(AccountActions.suspendAccountFailure, AccountActions.reactivateAccountFailure, (state): AccountState => ({
     ...state,
-    loading: false,
-    error
+    loading: false
   })),
 
   // ============================================================================
@@ -1,6 +1,6 @@
 // src/app/banking/store/account.state.ts
 
-import { Account, AccountType, AccountStatus } from '../models/account.model';
+import { Account, AccountType, AccountStatus, OverdraftUsage, ACCOUNT_RULES } from '../models/account.model';
 
 /**
  * Account State Interface
@@ -223,6 +223,47 @@ export function getAvailableBalance(account: Account): number {
   return account.balance;
 }
 
+/**
+ * Overdraft in use on a current account, as an amount and as a share of the limit
+ * Accounts without an overdraft facility report zero usage
+ */
+export function getOverdraftUsage(account: Account): OverdraftUsage {
+  const overdraftLimit = account.accountType === AccountType.CURRENT
+    ? account.overdraftLimit ?? ACCOUNT_RULES.CURRENT.OVERDRAFT_LIMIT
+    : 0;
+  const overdraftUsed = Math.max(-account.balance, 0);
+
+  return {
+    overdraftLimit,
+    overdraftUsed,
+    overdraftAvailable: Math.max(overdraftLimit - overdraftUsed, 0),
+    utilizationPercentage: overdraftLimit > 0
+      ? Math.round(overdraftUsed / overdraftLimit * 10000) / 100
+      : 0
+  };
+}
+
+/**
+ * Warning thresholds (% of the overdraft limit) passed when the balance
+ * moved from balanceBefore to balanceAfter, lowest first
+ */
+export function getCrossedOverdraftThresholds(
+  overdraftLimit: number,
+  balanceBefore: number,
+  balanceAfter: number,
+  thresholds: number[] = ACCOUNT_RULES.CURRENT.OVERDRAFT_WARNING_THRESHOLDS
+): number[] {
+  if (overdraftLimit <= 0) {
+    return [];
+  }
+  const usedBefore = Math.max(-balanceBefore, 0) / overdraftLimit * 100;
+  const usedAfter = Math.max(-balanceAfter, 0) / overdraftLimit * 100;
+
+  return [...thresholds]
+    .sort((a, b) => a - b)
+    .filter(threshold => usedBefore < threshold && usedAfter >= threshold);
+}
+
 /**
  * Get account type display name
  */
@@ -268,6 +309,8 @@ export const AccountStateHelpers = {
   exceedsWithdrawalLimit,
   hasLowBalance,
   getAvailableBalance,
+  getOverdraftUsage,
+  getCrossedOverdraftThresholds,
   getAccountTypeDisplayName,
   getStatusDisplayColor
 };
\ No newline at end of file
@@ -0,0 +1,302 @@
+// src/app/banking/store/notification.effects.ts
+
+import { Injectable } from '@angular/core';
+import { Actions, createEffect, ofType } from '@ngrx/effects';
+import { EMPTY, Observable, concat } from 'rxjs';
+import { catchError, filter, mergeMap, switchMap } from 'rxjs/operators';
+
+import { Account } from '../models/account.model';
+import { NotificationType, NotificationMetadata } from '../models/notificationmodel';
+import { Transaction } from '../models/transaction.model';
+import { AccountService } from '../services/account.service';
+import { NotificationService, NotificationTemplateArgs } from '../services/notification.service';
+import * as AccountActions from './account.actions';
+import * as TransactionActions from './transaction.actions';
+
+type NotificationTarget = Pick<Account, 'id' | 'accountNumber'>;
+
+/**
+ * Notification Effects
+ * Persists a Notification for every banking event so each account keeps
+ * an audit trail of alerts. Text comes from NOTIFICATION_TEMPLATES and the
+ * priority from NOTIFICATION_PRIORITY_MAP (see NotificationService.createFromTemplate).
+ *
+ * Failures are logged and swallowed: a missing alert must never break
+ * the banking operation that triggered it.
+ */
+@Injectable()
+export class NotificationEffects {
+
+  constructor(
+    private actions$: Actions,
+    private accountService: AccountService,
+    private notificationService: NotificationService
+  ) {}
+
+  // ============================================================================
+  // ACCOUNT LIFECYCLE
+  // ============================================================================
+
+  /**
+   * ACCOUNT_CREATED after createAccountSuccess
+   */
+  accountCreated$ = createEffect(
+    () =>
+      this.actions$.pipe(
+        ofType(AccountActions.createAccountSuccess),
+        mergeMap(({ response }) =>
+          this.notify(response.account, NotificationType.ACCOUNT_CREATED, [response.account.accountNumber], {
+            balance: response.account.balance
+          })
+        )
+      ),
+    { dispatch: false }
+  );
+
+  /**
+   * ACCOUNT_CLOSED after closeAccountSuccess, carrying the balance paid out on closure
+   */
+  accountClosed$ = createEffect(
+    () =>
+      this.actions$.pipe(
+        ofType(AccountActions.closeAccountSuccess),
+        mergeMap(({ accountId, response }) =>
+          this.withAccount(accountId, account =>
+            this.notify(account, NotificationType.ACCOUNT_CLOSED, [account.accountNumber], {
+              transactionId: response.closureTransaction?.id,
+              amount: response.closingBalance,
+              balance: 0
+            })
+          )
+        )
+      ),
+    { dispatch: false }
+  );
+
+  /**
+   * ACCOUNT_SUSPENDED after suspendAccountSuccess
+   */
+  accountSuspended$ = createEffect(
+    () =>
+      this.actions$.pipe(
+        ofType(AccountActions.suspendAccountSuccess),
+        mergeMap(({ response }) =>
+          this.notify(response.account, NotificationType.ACCOUNT_SUSPENDED, [response.statusChange.reason], {
+            balance: response.account.balance
+          })
+        )
+      ),
+    { dispatch: false }
+  );
+
+  /**
+   * ACCOUNT_REACTIVATED after reactivateAccountSuccess
+   */
+  accountReactivated$ = createEffect(
+    () =>
+      this.actions$.pipe(
+        ofType(AccountActions.reactivateAccountSuccess),
+        mergeMap(({ response }) =>
+          this.notify(response.account, NotificationType.ACCOUNT_REACTIVATED, [response.account.accountNumber], {
+            balance: response.account.balance
+          })
+        )
+      ),
+    { dispatch: false }
+  );
+
+  /**
+   * LOW_BALANCE after checkBalanceSuccess reports a low balance
+   * Skipped while an earlier low balance alert is still unread
+   */
+  lowBalance$ = createEffect(
+    () =>
+      this.actions$.pipe(
+        ofType(AccountActions.checkBalanceSuccess),
+        filter(({ response }) => response.isLowBalance),
+        mergeMap(({ response }) =>
+          this.notificationService.hasUnreadOfType(response.accountId, NotificationType.LOW_BALANCE).pipe(
+            filter(hasUnread => !hasUnread),
+            switchMap(() =>
+              this.notify(
+                { id: response.accountId, accountNumber: response.accountNumber },
+                NotificationType.LOW_BALANCE,
+                [response.currentBalance, response.minBalanceRequired],
+                {
+                  balance: response.currentBalance,
+                  threshold: response.minBalanceRequired,
+                  actionRequired: true,
+                  actionUrl: `/banking/deposit/${response.accountId}`
+                }
+              )
+            ),
+            catchError(error => this.logError(error))
+          )
+        )
+      ),
+    { dispatch: false }
+  );
+
+  // ============================================================================
+  // MONEY MOVEMENTS
+  // ============================================================================
+
+  /**
+   * DEPOSIT_SUCCESS after depositSuccess
+   */
+  depositSuccess$ = createEffect(
+    () =>
+      this.actions$.pipe(
+        ofType(TransactionActions.depositSuccess),
+        mergeMap(({ response }) =>
+          this.notify(
+            this.targetOf(response.transaction),
+            NotificationType.DEPOSIT_SUCCESS,
+            [response.transaction.amount, response.currentBalance],
+            this.transactionMetadata(response.transaction)
+          )
+        )
+      ),
+    { dispatch: false }
+  );
+
+  /**
+   * WITHDRAWAL_SUCCESS after withdrawSuccess, followed by
+   * OVERDRAFT_WARNING when the withdrawal (and its overdraft fee) pushed a current
+   * account's overdraft usage past one of the account holder's warning thresholds
+   */
+  withdrawalSuccess$ = createEffect(
+    () =>
+      this.actions$.pipe(
+        ofType(TransactionActions.withdrawSuccess),
+        mergeMap(({ response }) =>
+          this.withAccount(response.transaction.accountId, account =>
+            concat(
+              this.notify(this.targetOf(response.transaction), NotificationType.WITHDRAWAL_SUCCESS,
+                [response.transaction.amount, response.currentBalance],
+                this.transactionMetadata(response.transaction, response.currentBalance, response.overdraftFee)),
+              this.overdraftWarning(account, response.transaction, response.currentBalance, response.overdraftFee)
+            )
+          )
+        )
+      ),
+    { dispatch: false }
+  );
+
+  /**
+   * TRANSFER_SENT to the source and TRANSFER_RECEIVED to the destination after
+   * transferSuccess, plus OVERDRAFT_WARNING on the source as for withdrawals
+   */
+  transferSuccess$ = createEffect(
+    () =>
+      this.actions$.pipe(
+        ofType(TransactionActions.transferSuccess),
+        mergeMap(({ response }) => {
+          const { debitTransaction: debit, creditTransaction: credit } = response;
+
+          return concat(
+            this.notify(this.targetOf(debit), NotificationType.TRANSFER_SENT,
+              [debit.amount, credit.accountNumber, response.sourceBalance],
+              {
+                ...this.transactionMetadata(debit, response.sourceBalance, response.overdraftFee),
+                transferReference: response.transferReference
+              }),
+            this.notify(this.targetOf(credit), NotificationType.TRANSFER_RECEIVED,
+              [credit.amount, debit.accountNumber, response.destinationBalance],
+              { ...this.transactionMetadata(credit), transferReference: response.transferReference }),
+            this.withAccount(debit.accountId, account =>
+              this.overdraftWarning(account, debit, response.sourceBalance, response.overdraftFee)
+            )
+          );
+        })
+      ),
+    { dispatch: false }
+  );
+
+  /**
+   * WITHDRAWAL_FAILED after withdrawFailure
+   */
+  withdrawalFailed$ = createEffect(
+    () =>
+      this.actions$.pipe(
+        ofType(TransactionActions.withdrawFailure),
+        mergeMap(({ accountId, error }) =>
+          this.withAccount(accountId, account =>
+            this.notify(account, NotificationType.WITHDRAWAL_FAILED, [error], {
+              balance: account.balance,
+              reason: error
+            })
+          )
+        )
+      ),
+    { dispatch: false }
+  );
+
+  // ============================================================================
+  // UTILITY METHODS
+  // ============================================================================
+
+  /**
+   * OVERDRAFT_WARNING on the debited account, logging any failure
+   */
+  private overdraftWarning(
+    account: Account,
+    debit: Transaction,
+    currentBalance: number,
+    overdraftFee?: Transaction
+  ): Observable<unknown> {
+    return this.notificationService.createOverdraftWarning(account, debit, currentBalance, overdraftFee).pipe(
+      catchError(error => this.logError(error))
+    );
+  }
+
+  /**
+   * Create the notification from its template, logging any failure
+   */
+  private notify<T extends NotificationType>(
+    target: NotificationTarget,
+    type: T,
+    templateArgs: NotificationTemplateArgs<T>,
+    metadata: NotificationMetadata
+  ): Observable<unknown> {
+    return this.notificationService.createFromTemplate(target, type, templateArgs, metadata).pipe(
+      catchError(error => this.logError(error))
+    );
+  }
+
+  /**
+   * Load the account before building a notification that needs its details
+   */
+  private withAccount(accountId: number, project: (account: Account) => Observable<unknown>): Observable<unknown> {
+    return this.accountService.getAccountById(accountId).pipe(
+      switchMap(project),
+      catchError(error => this.logError(error))
+    );
+  }
+
+  private targetOf(transaction: Transaction): NotificationTarget {
+    return { id: transaction.accountId, accountNumber: transaction.accountNumber };
+  }
+
+  /**
+   * Metadata of a money movement
+   * `balance` is the balance after any overdraft fee, matching the balance in the message
+   */
+  private transactionMetadata(
+    transaction: Transaction,
+    balance: number = transaction.balanceAfterTransaction,
+    overdraftFee?: Transaction
+  ): NotificationMetadata {
+    return {
+      transactionId: transaction.id,
+      amount: transaction.amount,
+      balance,
+      ...(overdraftFee && { overdraftFee: overdraftFee.amount })
+    };
+  }
+
+  private logError(error: any): Observable<never> {
+    console.error('Notification Effects Error:', error?.message || error);
+    return EMPTY;
+  }
+}
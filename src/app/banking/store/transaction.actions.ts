@@ -0,0 +1,96 @@
+import { createAction, props } from '@ngrx/store';
+import {
+  Transaction,
+  DepositRequest,
+  DepositResponse,
+  WithdrawalRequest,
+  WithdrawalResponse,
+  TransferRequest,
+  TransferResponse,
+  ReversalResponse,
+  TransactionHistoryRequest,
+  TransactionHistoryResponse
+} from '../models/transaction.model';
+
+// Load History Actions
+export const loadTransactionHistory = createAction(
+  '[Transaction] Load Transaction History',
+  props<{ request: TransactionHistoryRequest }>()
+);
+
+export const loadTransactionHistorySuccess = createAction(
+  '[Transaction] Load Transaction History Success',
+  props<{ response: TransactionHistoryResponse }>()
+);
+
+export const loadTransactionHistoryFailure = createAction(
+  '[Transaction] Load Transaction History Failure',
+  props<{ error: string }>()
+);
+
+// Deposit Actions
+export const deposit = createAction(
+  '[Transaction] Deposit',
+  props<{ request: DepositRequest }>()
+);
+
+export const depositSuccess = createAction(
+  '[Transaction] Deposit Success',
+  props<{ response: DepositResponse }>()
+);
+
+export const depositFailure = createAction(
+  '[Transaction] Deposit Failure',
+  props<{ error: string }>()
+);
+
+// Withdraw Actions
+export const withdraw = createAction(
+  '[Transaction] Withdraw',
+  props<{ request: WithdrawalRequest }>()
+);
+
+export const withdrawSuccess = createAction(
+  '[Transaction] Withdraw Success',
+  props<{ response: WithdrawalResponse }>()
+);
+
+export const withdrawFailure = createAction(
+  '[Transaction] Withdraw Failure',
+  props<{ accountId: number; error: string }>()
+);
+
+// Transfer Actions
+export const transfer = createAction(
+  '[Transaction] Transfer',
+  props<{ request: TransferRequest }>()
+);
+
+export const transferSuccess = createAction(
+  '[Transaction] Transfer Success',
+  props<{ response: TransferResponse }>()
+);
+
+export const transferFailure = createAction(
+  '[Transaction] Transfer Failure',
+  props<{ error: string }>()
+);
+
+// Reverse Actions
+export const reverseTransaction = createAction(
+  '[Transaction] Reverse Transaction',
+  props<{ transactionId: number; reason: string }>()
+);
+
+export const reverseTransactionSuccess = createAction(
+  '[Transaction] Reverse Transaction Success',
+  props<{ response: ReversalResponse }>()
+);
+
+export const reverseTransactionFailure = createAction(
+  '[Transaction] Reverse Transaction Failure',
+  props<{ error: string }>()
+);
+
+// Clear Error
+export const clearTransactionError = createAction('[Transaction] Clear Error');
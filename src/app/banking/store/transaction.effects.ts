@@ -0,0 +1,296 @@
+// src/app/banking/store/transaction.effects.ts
+
+import { Injectable } from '@angular/core';
+import { Actions, createEffect, ofType } from '@ngrx/effects';
+import { Router } from '@angular/router';
+import { of } from 'rxjs';
+import { map, catchError, concatMap, exhaustMap, mergeMap, switchMap, tap } from 'rxjs/operators';
+import { ToastrService } from 'ngx-toastr';
+
+import { AccountService } from '../services/account.service';
+import { TransactionService } from '../services/transaction.service';
+import * as TransactionActions from './transaction.actions';
+import * as AccountActions from './account.actions';
+
+/**
+ * Transaction Effects
+ * Handles side effects for all transaction-related actions
+ * - API calls
+ * - Keeping the accounts slice in sync after money movements
+ * - Navigation
+ * - Notifications
+ */
+@Injectable()
+export class TransactionEffects {
+
+  constructor(
+    private actions$: Actions,
+    private transactionService: TransactionService,
+    private accountService: AccountService,
+    private router: Router,
+    private toastr: ToastrService
+  ) {}
+
+  // ============================================================================
+  // LOAD TRANSACTION HISTORY EFFECT
+  // ============================================================================
+
+  /**
+   * Load a page of transaction history
+   * Triggered by: loadTransactionHistory action
+   * Success: Dispatches loadTransactionHistorySuccess with the page
+   * Failure: Dispatches loadTransactionHistoryFailure with error message
+   */
+  loadTransactionHistory$ = createEffect(() =>
+    this.actions$.pipe(
+      ofType(TransactionActions.loadTransactionHistory),
+      switchMap(action =>
+        this.transactionService.getTransactionHistory(action.request).pipe(
+          map(response =>
+            TransactionActions.loadTransactionHistorySuccess({ response })
+          ),
+          catchError(error => {
+            const errorMessage = this.extractErrorMessage(error);
+            this.showErrorNotification('Failed to load transactions', errorMessage);
+            return of(TransactionActions.loadTransactionHistoryFailure({ error: errorMessage }));
+          })
+        )
+      )
+    )
+  );
+
+  // ============================================================================
+  // DEPOSIT EFFECT
+  // ============================================================================
+
+  /**
+   * Deposit money
+   * Triggered by: deposit action
+   * Success: Dispatches depositSuccess and shows success notification
+   * Failure: Dispatches depositFailure and shows error notification
+   */
+  deposit$ = createEffect(() =>
+    this.actions$.pipe(
+      ofType(TransactionActions.deposit),
+      exhaustMap(action =>
+        this.transactionService.deposit(action.request).pipe(
+          map(response => {
+            this.showSuccessNotification(
+              'Deposit Successful',
+              `${response.message}. Current balance: ₹${response.currentBalance.toFixed(2)}`
+            );
+            return TransactionActions.depositSuccess({ response });
+          }),
+          catchError(error => {
+            const errorMessage = this.extractErrorMessage(error);
+            this.showErrorNotification('Deposit Failed', errorMessage);
+            return of(TransactionActions.depositFailure({ error: errorMessage }));
+          })
+        )
+      )
+    )
+  );
+
+  // ============================================================================
+  // WITHDRAW EFFECT
+  // ============================================================================
+
+  /**
+   * Withdraw money
+   * Triggered by: withdraw action
+   * Success: Dispatches withdrawSuccess and shows success notification
+   * Failure: Dispatches withdrawFailure and shows error notification
+   */
+  withdraw$ = createEffect(() =>
+    this.actions$.pipe(
+      ofType(TransactionActions.withdraw),
+      exhaustMap(action =>
+        this.transactionService.withdraw(action.request).pipe(
+          map(response => {
+            this.showSuccessNotification(
+              'Withdrawal Successful',
+              `${response.message}. Current balance: ₹${response.currentBalance.toFixed(2)}`
+            );
+            return TransactionActions.withdrawSuccess({ response });
+          }),
+          catchError(error => {
+            const errorMessage = this.extractErrorMessage(error);
+            this.showErrorNotification('Withdrawal Failed', errorMessage);
+            return of(TransactionActions.withdrawFailure({
+              accountId: action.request.accountId,
+              error: errorMessage
+            }));
+          })
+        )
+      )
+    )
+  );
+
+  /**
+   * Navigate back to the account after a deposit or withdrawal
+   */
+  moneyMovementSuccess$ = createEffect(
+    () =>
+      this.actions$.pipe(
+        ofType(TransactionActions.depositSuccess, TransactionActions.withdrawSuccess),
+        tap(({ response }) => {
+          this.router.navigateByUrl(`/banking/account/${response.transaction.accountId}`);
+        })
+      ),
+    { dispatch: false }
+  );
+
+  // ============================================================================
+  // TRANSFER EFFECT
+  // ============================================================================
+
+  /**
+   * Transfer money between accounts
+   * Triggered by: transfer action
+   * Success: Dispatches transferSuccess and shows success notification
+   * Failure: Dispatches transferFailure and shows error notification
+   */
+  transfer$ = createEffect(() =>
+    this.actions$.pipe(
+      ofType(TransactionActions.transfer),
+      exhaustMap(action =>
+        this.transactionService.transfer(action.request).pipe(
+          map(response => {
+            this.showSuccessNotification(
+              'Transfer Successful',
+              `${response.message}. Reference: ${response.transferReference}`
+            );
+            return TransactionActions.transferSuccess({ response });
+          }),
+          catchError(error => {
+            const errorMessage = this.extractErrorMessage(error);
+            this.showErrorNotification('Transfer Failed', errorMessage);
+            return of(TransactionActions.transferFailure({ error: errorMessage }));
+          })
+        )
+      )
+    )
+  );
+
+  /**
+   * Navigate back to the source account after a transfer
+   */
+  transferSuccess$ = createEffect(
+    () =>
+      this.actions$.pipe(
+        ofType(TransactionActions.transferSuccess),
+        tap(({ response }) => {
+          this.router.navigateByUrl(`/banking/account/${response.debitTransaction.accountId}`);
+        })
+      ),
+    { dispatch: false }
+  );
+
+  // ============================================================================
+  // REVERSE TRANSACTION EFFECT
+  // ============================================================================
+
+  /**
+   * Reverse a deposit or withdrawal
+   * Triggered by: reverseTransaction action
+   * Success: Dispatches reverseTransactionSuccess and shows success notification
+   * Failure: Dispatches reverseTransactionFailure and shows error notification
+   */
+  reverseTransaction$ = createEffect(() =>
+    this.actions$.pipe(
+      ofType(TransactionActions.reverseTransaction),
+      exhaustMap(action =>
+        this.transactionService.reverseTransaction(action.transactionId, action.reason).pipe(
+          map(response => {
+            this.showSuccessNotification('Transaction Reversed', response.message);
+            return TransactionActions.reverseTransactionSuccess({ response });
+          }),
+          catchError(error => {
+            const errorMessage = this.extractErrorMessage(error);
+            this.showErrorNotification('Reversal Failed', errorMessage);
+            return of(TransactionActions.reverseTransactionFailure({ error: errorMessage }));
+          })
+        )
+      )
+    )
+  );
+
+  // ============================================================================
+  // ACCOUNT SYNC EFFECT
+  // ============================================================================
+
+  /**
+   * Reload the affected accounts after every money movement
+   * Dispatches loadAccountSuccess so selectSelectedAccount and
+   * selectTotalBalance reflect the new balance without a manual reload
+   */
+  syncAccount$ = createEffect(() =>
+    this.actions$.pipe(
+      ofType(
+        TransactionActions.depositSuccess,
+        TransactionActions.withdrawSuccess,
+        TransactionActions.transferSuccess,
+        TransactionActions.reverseTransactionSuccess
+      ),
+      mergeMap(action => {
+        switch (action.type) {
+          case TransactionActions.transferSuccess.type:
+            // Source last, so it ends up as the selected account
+            return [action.response.creditTransaction.accountId, action.response.debitTransaction.accountId];
+          default:
+            return [action.response.transaction.accountId];
+        }
+      }),
+      concatMap(accountId =>
+        this.accountService.getAccountById(accountId).pipe(
+          map(account => AccountActions.loadAccountSuccess({ account })),
+          catchError(error =>
+            of(AccountActions.loadAccountFailure({ error: this.extractErrorMessage(error) }))
+          )
+        )
+      )
+    )
+  );
+
+  // ============================================================================
+  // UTILITY METHODS
+  // ============================================================================
+
+  /**
+   * Extract meaningful error message from error object
+   */
+  private extractErrorMessage(error: any): string {
+    if (error?.error?.message) {
+      return error.error.message;
+    }
+    if (error?.message) {
+      return error.message;
+    }
+    if (typeof error === 'string') {
+      return error;
+    }
+    return 'An unexpected error occurred. Please try again.';
+  }
+
+  /**
+   * Show success notification
+   */
+  private showSuccessNotification(title: string, message: string): void {
+    this.toastr.success(message, title, {
+      timeOut: 3000,
+      progressBar: true,
+      closeButton: true
+    });
+  }
+
+  /**
+   * Show error notification
+   */
+  private showErrorNotification(title: string, message: string): void {
+    this.toastr.error(message, title, {
+      timeOut: 5000,
+      progressBar: true,
+      closeButton: true
+    });
+  }
+}
@@ -0,0 +1,186 @@
+// src/app/banking/store/transaction.reducer.ts
+
+import { createReducer, on } from '@ngrx/store';
+import { TransactionState, initialTransactionState, replaceTransaction } from './transaction.state';
+import { Transaction } from '../models/transaction.model';
+import * as TransactionActions from './transaction.actions';
+
+/**
+ * Add a new transaction to the top of the history
+ * Only when the history on screen belongs to the same account
+ */
+function prependTransaction(state: TransactionState, transaction: Transaction): TransactionState {
+  if (state.accountId !== transaction.accountId) {
+    return state;
+  }
+  return {
+    ...state,
+    transactions: [transaction, ...state.transactions].slice(0, state.pageSize),
+    totalRecords: state.totalRecords + 1,
+    totalPages: Math.ceil((state.totalRecords + 1) / state.pageSize)
+  };
+}
+
+/**
+ * Transaction Reducer
+ * Handles all state transitions for the banking transactions feature
+ */
+export const transactionReducer = createReducer(
+  initialTransactionState,
+
+  // ============================================================================
+  // LOAD TRANSACTION HISTORY
+  // ============================================================================
+
+  /**
+   * When loading history starts
+   * - Set loading to true
+   * - Clear any previous errors
+   * - Drop the previous page if it belonged to another account
+   */
+  on(TransactionActions.loadTransactionHistory, (state, { request }): TransactionState => ({
+    ...state,
+    transactions: state.accountId === request.accountId ? state.transactions : [],
+    accountId: request.accountId,
+    loading: true,
+    error: null
+  })),
+
+  /**
+   * When history is loaded successfully
+   * - Store the page and paging information
+   * - Set loading to false
+   */
+  on(TransactionActions.loadTransactionHistorySuccess, (state, { response }): TransactionState => ({
+    ...state,
+    transactions: response.transactions,
+    accountId: response.accountId,
+    totalRecords: response.totalRecords,
+    pageNumber: response.pageNumber,
+    pageSize: response.pageSize,
+    totalPages: response.totalPages,
+    loading: false,
+    error: null,
+    lastUpdated: new Date()
+  })),
+
+  /**
+   * When loading history fails
+   * - Set loading to false
+   * - Store the error message
+   */
+  on(TransactionActions.loadTransactionHistoryFailure, (state, { error }): TransactionState => ({
+    ...state,
+    transactions: [],
+    totalRecords: 0,
+    totalPages: 0,
+    loading: false,
+    error
+  })),
+
+  // ============================================================================
+  // DEPOSIT / WITHDRAW / REVERSE
+  // ============================================================================
+
+  /**
+   * When a money movement starts
+   * - Set processing to true
+   * - Clear any previous errors
+   */
+  on(
+    TransactionActions.deposit,
+    TransactionActions.withdraw,
+    TransactionActions.transfer,
+    TransactionActions.reverseTransaction,
+    (state): TransactionState => ({
+      ...state,
+      processing: true,
+      error: null
+    })
+  ),
+
+  /**
+   * When a deposit or withdrawal succeeds
+   * - Remember it as the last transaction
+   * - Add it to the history on screen
+   */
+  on(
+    TransactionActions.depositSuccess,
+    TransactionActions.withdrawSuccess,
+    (state, { response }): TransactionState => ({
+      ...prependTransaction(state, response.transaction),
+      lastTransaction: response.transaction,
+      processing: false,
+      error: null,
+      lastUpdated: new Date()
+    })
+  ),
+
+  /**
+   * When a transfer succeeds
+   * - Remember the debit leg as the last transaction
+   * - Add whichever leg belongs to the history on screen
+   */
+  on(TransactionActions.transferSuccess, (state, { response }): TransactionState => ({
+    ...prependTransaction(
+      prependTransaction(state, response.debitTransaction),
+      response.creditTransaction
+    ),
+    lastTransaction: response.debitTransaction,
+    processing: false,
+    error: null,
+    lastUpdated: new Date()
+  })),
+
+  /**
+   * When a reversal succeeds
+   * - Add the compensating entry and replace the original with its linked version
+   */
+  on(TransactionActions.reverseTransactionSuccess, (state, { response }): TransactionState => ({
+    ...prependTransaction(
+      { ...state, transactions: replaceTransaction(state.transactions, response.reversedTransaction) },
+      response.transaction
+    ),
+    lastTransaction: response.transaction,
+    processing: false,
+    error: null,
+    lastUpdated: new Date()
+  })),
+
+  /**
+   * When a money movement fails
+   * - Set processing to false
+   * - Store the error message
+   */
+  on(
+    TransactionActions.depositFailure,
+    TransactionActions.withdrawFailure,
+    TransactionActions.transferFailure,
+    TransactionActions.reverseTransactionFailure,
+    (state, { error }): TransactionState => ({
+      ...state,
+      processing: false,
+      error
+    })
+  ),
+
+  // ============================================================================
+  // UTILITY ACTIONS
+  // ============================================================================
+
+  /**
+   * Clear any error messages
+   */
+  on(TransactionActions.clearTransactionError, (state): TransactionState => ({
+    ...state,
+    error: null
+  }))
+);
+
+/**
+ * Export the reducer function
+ * This is required for AOT compilation
+ */
+export function TransactionReducer(state: TransactionState | undefined, action: any): TransactionState {
+  return transactionReducer(state, action);
+}
@@ -0,0 +1,90 @@
+// src/app/banking/store/transaction.selectors.ts
+
+import { createFeatureSelector, createSelector } from '@ngrx/store';
+import { TransactionState, isCreditTransaction } from './transaction.state';
+import { TransactionStatus } from '../models/transaction.model';
+
+/**
+ * Feature Selector - Entry point for all transaction selectors
+ */
+export const selectTransactionState = createFeatureSelector<TransactionState>('transactions');
+
+/**
+ * Basic Selectors
+ */
+
+// Select the current page of transactions
+export const selectTransactions = createSelector(
+  selectTransactionState,
+  (state: TransactionState) => state.transactions
+);
+
+// Select the account the history belongs to
+export const selectTransactionAccountId = createSelector(
+  selectTransactionState,
+  (state: TransactionState) => state.accountId
+);
+
+// Select the last processed transaction
+export const selectLastTransaction = createSelector(
+  selectTransactionState,
+  (state: TransactionState) => state.lastTransaction
+);
+
+// Select loading state
+export const selectTransactionsLoading = createSelector(
+  selectTransactionState,
+  (state: TransactionState) => state.loading
+);
+
+// Select processing state
+export const selectTransactionProcessing = createSelector(
+  selectTransactionState,
+  (state: TransactionState) => state.processing
+);
+
+// Select error state
+export const selectTransactionError = createSelector(
+  selectTransactionState,
+  (state: TransactionState) => state.error
+);
+
+/**
+ * Paging Selector
+ */
+export const selectTransactionPaging = createSelector(
+  selectTransactionState,
+  (state: TransactionState) => ({
+    totalRecords: state.totalRecords,
+    pageNumber: state.pageNumber,
+    pageSize: state.pageSize,
+    totalPages: state.totalPages
+  })
+);
+
+/**
+ * Calculated Selectors
+ */
+
+// Completed transactions on the current page
+export const selectCompletedTransactions = createSelector(
+  selectTransactions,
+  (transactions) => transactions.filter((t) => t.status === TransactionStatus.COMPLETED)
+);
+
+// Credits and debits of the current page
+export const selectPageTotals = createSelector(
+  selectCompletedTransactions,
+  (transactions) =>
+    transactions.reduce(
+      (totals, t) => {
+        if (isCreditTransaction(t)) {
+          totals.credits += t.amount;
+        } else {
+          totals.debits += t.amount;
+        }
+        return totals;
+      },
+      { credits: 0, debits: 0 }
+    )
+);
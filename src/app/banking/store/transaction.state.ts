@@ -0,0 +1,118 @@
+// src/app/banking/store/transaction.state.ts
+
+import { Transaction, TransactionStatus, CREDIT_TRANSACTION_TYPES, REVERSAL_TRANSACTION_TYPES } from '../models/transaction.model';
+import { Account } from '../models/account.model';
+
+/**
+ * Transaction State Interface
+ * Manages the transaction history page and money movements of the banking feature
+ */
+export interface TransactionState {
+  // Current page of transaction history
+  transactions: Transaction[];
+
+  // Account the history belongs to
+  accountId: number | null;
+
+  // Paging information returned with the history
+  totalRecords: number;
+  pageNumber: number;
+  pageSize: number;
+  totalPages: number;
+
+  // Last deposit, withdrawal or reversal processed
+  lastTransaction: Transaction | null;
+
+  // Loading state for history requests
+  loading: boolean;
+
+  // Processing state for deposits, withdrawals and reversals
+  processing: boolean;
+
+  // Error message if any operation fails
+  error: string | null;
+
+  // Last updated timestamp for cache invalidation
+  lastUpdated: Date | null;
+}
+
+/**
+ * Initial State
+ * Default values when the application starts
+ */
+export const initialTransactionState: TransactionState = {
+  transactions: [],
+  accountId: null,
+  totalRecords: 0,
+  pageNumber: 1,
+  pageSize: 10,
+  totalPages: 0,
+  lastTransaction: null,
+  loading: false,
+  processing: false,
+  error: null,
+  lastUpdated: null
+};
+
+/**
+ * State Helper Functions
+ * Utility functions to work with transaction state
+ */
+
+/**
+ * Check if a transaction adds money to the account
+ */
+export function isCreditTransaction(transaction: Transaction): boolean {
+  return CREDIT_TRANSACTION_TYPES.includes(transaction.transactionType);
+}
+
+/**
+ * Check if a transaction can still be reversed
+ * A reversed deposit or withdrawal stays COMPLETED but points at its reversal
+ */
+export function canReverseTransaction(transaction: Transaction): boolean {
+  return transaction.status === TransactionStatus.COMPLETED &&
+    !transaction.linkedTransactionId &&
+    !!REVERSAL_TRANSACTION_TYPES[transaction.transactionType];
+}
+
+/**
+ * Balance implied by the ledger: completed credits minus completed debits.
+ * Pending, failed and reversed entries never moved money, or had it moved back.
+ */
+export function getLedgerBalance(transactions: Transaction[]): number {
+  const total = transactions
+    .filter(transaction => transaction.status === TransactionStatus.COMPLETED)
+    .reduce((sum, transaction) =>
+      sum + (isCreditTransaction(transaction) ? transaction.amount : -transaction.amount), 0);
+  return Math.round(total * 100) / 100;
+}
+
+/**
+ * Balance after the last completed transaction up to a moment.
+ * `ledger` holds the completed transactions of the account, oldest first.
+ * Before the first recorded transaction the balance is that transaction's
+ * opening balance; accounts without any ledger entry use their current balance.
+ */
+export function getBalanceAt(account: Account, ledger: Transaction[], at: Date): number {
+  let balance: number | null = null;
+
+  for (const transaction of ledger) {
+    if (new Date(transaction.transactionDate) > at) {
+      break;
+    }
+    balance = transaction.balanceAfterTransaction;
+  }
+
+  if (balance !== null) {
+    return balance;
+  }
+  return ledger.length > 0 ? ledger[0].balanceBeforeTransaction : account.balance;
+}
+
+/**
+ * Replace a transaction in the list, keeping its position
+ */
+export function replaceTransaction(transactions: Transaction[], updated: Transaction): Transaction[] {
+  return transactions.map(transaction => transaction.id === updated.id ? updated : transaction);
+}
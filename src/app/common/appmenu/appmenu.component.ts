@@ -69,6 +69,14 @@ export class AppmenuComponent implements DoCheck {
     return localStorage.getItem('username') !== null;
   }
 
+  /**
+   * Check if the logged-in user has the admin role
+   * @returns boolean
+   */
+  isAdmin(): boolean {
+    return localStorage.getItem('userrole') === 'admin';
+  }
+
   /**
    * Logout the current user
    * Clears localStorage and navigates to login
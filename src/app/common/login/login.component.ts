@@ -35,6 +35,7 @@ export class LoginComponent implements OnInit {
         let _resp = item;
         if(_resp.length>0){
           localStorage.setItem('username',this._logindata.username);
+          localStorage.setItem('userrole',_resp[0].role);
           this.router.navigateByUrl('');
         }else{
           alert('Invalid credentials');
@@ -1,76 +1,103 @@
-import { Component, signal, ViewChild } from '@angular/core';
-import { ReversePipe } from '../custom/reverse.pipe';
+import { Component, computed, OnDestroy, OnInit, signal } from '@angular/core';
 import { MatCardModule } from '@angular/material/card';
-import { CommonModule } from '@angular/common';
-import { FormsModule } from '@angular/forms';
-import { MasterService } from '../service/master.service';
-import { Customers } from '../model/masterModel';
-import { ChildComponent } from '../common/child/child.component';
+import { CommonModule, formatDate } from '@angular/common';
+import { FormBuilder, ReactiveFormsModule } from '@angular/forms';
+import { Router } from '@angular/router';
+import { MatButtonModule } from '@angular/material/button';
+import { MatButtonToggleModule } from '@angular/material/button-toggle';
+import { MatFormFieldModule } from '@angular/material/form-field';
+import { MatDatepickerModule } from '@angular/material/datepicker';
+import { provideNativeDateAdapter } from '@angular/material/core';
+import { filter, Subscription } from 'rxjs';
+import { SalesDashboard, SalesPeriod } from '../model/SalesDashboard';
+import { SalesDashboardService } from '../service/sales-dashboard.service';
 
 @Component({
   selector: 'app-home',
   standalone: true,
-  imports: [MatCardModule, CommonModule, ReversePipe, FormsModule,ChildComponent],
+  providers: [provideNativeDateAdapter()],
+  imports: [MatCardModule, CommonModule, ReactiveFormsModule, MatButtonModule, MatButtonToggleModule,
+    MatFormFieldModule, MatDatepickerModule],
   templateUrl: './home.component.html',
   styleUrl: './home.component.css'
 })
-export class HomeComponent {
+export class HomeComponent implements OnInit, OnDestroy {
 
-  constructor(private service: MasterService) {
-   this.Getallcustomer();
-   setTimeout(()=>{
-    this.title1.set("Angular for begginners");
-   },10000)
-  }
-  _custdata!: Customers[];
-
-  @ViewChild(ChildComponent) _child!:ChildComponent;
+  constructor(private service: SalesDashboardService, private builder: FormBuilder, private router: Router) {
 
+  }
 
-  title = 'Angular 18 Tutorial';
-  title1 =signal<string>('Angular 18 Tutorial');
-  subtitle = 'Angular for begginers'
-  todaydate = new Date();
-  salary = 1000233444;
-  _obj = { "name": "NT" }
-  firstname='';
-  lastname='';
+  dashboard = signal<SalesDashboard | null>(null);
+  loaderror = signal('');
+  period = signal<SalesPeriod>('month');
+  periods: { value: SalesPeriod, label: string }[] = [
+    { value: 'day', label: 'Day' }, { value: 'week', label: 'Week' }, { value: 'month', label: 'Month' }
+  ];
 
-  isdisabled = true;
-  _class = 'inactive';
-  _color = 'blue'
-  _font = '34'
+  periodrows = computed(() => this.dashboard()?.periods[this.period()] ?? []);
+  // bar widths are relative to the best row in each table
+  maxperiod = computed(() => Math.max(0, ...this.periodrows().map(x => x.revenue)));
+  maxcustomer = computed(() => Math.max(0, ...(this.dashboard()?.customers ?? []).map(x => x.revenue)));
 
-  isshow = false;
+  subscription = new Subscription();
+  loadsubscription?: Subscription;
 
-  ticketinfo = [
-    { 'id': 1, 'name': 'angular', color: 'green' },
-    { 'id': 2, 'name': 'react', color: 'red' },
-    { 'id': 3, 'name': 'vuejs', color: 'blue' }
-  ]
+  rangeform = this.builder.group({
+    fromdate: this.builder.control<Date | null>(null),
+    todate: this.builder.control<Date | null>(null)
+  })
 
-  _view = 'about1';
+  ngOnInit(): void {
+    this.subscription.add(this.rangeform.valueChanges.pipe(
+      filter(range => range.fromdate != null && range.todate != null)
+    ).subscribe(() => this.Loaddashboard()));
+    this.Setrange('12months');
+  }
 
-  Changetitle() {
-    this.title = "Angular 18 Full Tutorail";
+  ngOnDestroy(): void {
+    this.subscription.unsubscribe();
+    this.loadsubscription?.unsubscribe();
   }
 
-  updatetitle(event: any) {
-    this.title = event.target.value;
+  Setrange(range: 'month' | '30days' | '12months') {
+    let today = new Date();
+    let fromdate = range == 'month' ? new Date(today.getFullYear(), today.getMonth(), 1)
+      : range == '30days' ? new Date(today.getFullYear(), today.getMonth(), today.getDate() - 29)
+        : new Date(today.getFullYear(), today.getMonth() - 11, 1);
+    this.rangeform.setValue({ fromdate: fromdate, todate: today });
   }
-  updatetitle1(title:string) {
-    this.title = title;
+
+  Loaddashboard() {
+    let range = this.rangeform.value;
+    // a newer range replaces any load still in flight
+    this.loadsubscription?.unsubscribe();
+    this.loaderror.set('');
+    this.loadsubscription = this.service.GetDashboard(this.Day(range.fromdate!), this.Day(range.todate!)).subscribe({
+      next: item => this.dashboard.set(item),
+      error: err => {
+        this.dashboard.set(null);
+        this.loaderror.set(err.message);
+      }
+    });
   }
 
-  addfruit(fruit:any){
-   let resp= this._child.Updatefruits(fruit);
-   console.log(resp);
+  Bar(value: number, max: number) {
+    return max > 0 ? Math.max(value / max * 100, 1) + '%' : '0%';
   }
 
-  Getallcustomer() {
-    this.service.GetallCustomerold().subscribe(item => {
-      this._custdata = item;
-      console.log(this._custdata);
+  // Opens the invoice list with the matching filter; the dashboard range applies unless a narrower one is given
+  Drilldown(params: { q?: string, from?: string, to?: string }) {
+    let dashboard = this.dashboard();
+    this.router.navigate(['/invoice'], {
+      queryParams: {
+        q: params.q || null,
+        from: params.from ?? dashboard?.fromdate,
+        to: params.to ?? dashboard?.todate
+      }
     });
   }
+
+  private Day(date: Date) {
+    return formatDate(date, 'yyyy-MM-dd', 'en-US');
+  }
 }
@@ -0,0 +1,19 @@
+// Customer exposure when an invoice is saved or issued: what is still unpaid plus the invoice itself
+export interface CreditCheck{
+    customerid:string
+    customername:string
+    creditlimit:number // 0 means no limit
+    outstanding:number // unpaid balance of the customer's other invoices
+    invoiceamount:number
+    exposure:number // outstanding + invoiceamount
+    exceededby:number // 0 when the invoice fits within the limit
+}
+
+// Kept on the invoice when a supervisor let it be saved or issued over the customer's credit limit
+export interface CreditOverride{
+    approvedby:string
+    approveddate:Date
+    reason:string
+    creditlimit:number
+    exposure:number
+}
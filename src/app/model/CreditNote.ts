@@ -0,0 +1,24 @@
+import { Invoiceproducts } from "./Invoiceproduct"
+
+export interface CreditNoteproducts extends Invoiceproducts{
+    lineindex:number // position of the credited line on the original invoice
+}
+
+export interface CreditNote{
+    id:number
+    creditnoteno?:string, // e.g. CN/2026-27/00007, assigned by the CN series at save time
+    financialyear?:string,
+    invoiceId:number // json-server nests /invoice/:id/creditnotes on this key
+    invoiceno:string
+    customerid:string
+    customername:string
+    creditdate:Date,
+    reason:string,
+    taxcode:string,
+    taxtype:string,
+    taxperc:number,
+    total:number
+    tax:number
+    nettotal:number,
+    products:CreditNoteproducts[]
+}
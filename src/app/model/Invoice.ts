@@ -1,7 +1,33 @@
 import { Invoiceproducts } from "./Invoiceproduct"
+import { CreditOverride } from "./CreditLimit"
+
+export enum InvoiceStatus {
+    Draft = 'Draft',
+    Issued = 'Issued',
+    Paid = 'Paid',
+    Cancelled = 'Cancelled'
+}
+
+// Allowed moves from each status; only drafts can still be edited
+export const InvoiceTransitions: { [status in InvoiceStatus]: InvoiceStatus[] } = {
+    [InvoiceStatus.Draft]: [InvoiceStatus.Issued, InvoiceStatus.Cancelled],
+    [InvoiceStatus.Issued]: [InvoiceStatus.Paid, InvoiceStatus.Cancelled],
+    [InvoiceStatus.Paid]: [],
+    [InvoiceStatus.Cancelled]: []
+}
 
 export interface Invoice{
     id:number
+    invoiceno?:string, // e.g. INV/2026-27/00042, assigned by the series at save time
+    financialyear?:string,
+    status?:InvoiceStatus, // missing on invoices saved before statuses existed, treated as Draft
+    issueddate?:Date,
+    paiddate?:Date,
+    cancelleddate?:Date,
+    cancelreason?:string,
+    paidamount?:number, // sum of the payments recorded against the invoice
+    creditedamount?:number, // sum of the credit notes raised against the invoice
+    creditoverride?:CreditOverride, // set when the invoice was saved over the customer's credit limit
     customerid:string
     customername:string
     deliveryaddress:string
@@ -13,4 +39,4 @@ export interface Invoice{
     taxtype:string,
     taxperc:number,
     products:Invoiceproducts[]
-}
\ No newline at end of file
+}
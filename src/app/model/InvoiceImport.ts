@@ -0,0 +1,37 @@
+import { Invoice } from "./Invoice"
+
+// Column headers of the invoice CSV: one row per product line, invoice fields repeated on every row.
+// The import reads the columns it needs by header name and ignores the rest (totals are recomputed).
+export const InvoiceCsvColumns = ['InvoiceNo', 'InvoiceDate', 'Status', 'CustomerId', 'CustomerName',
+    'DeliveryAddress', 'TaxCode', 'LineNo', 'ProductId', 'ProductName', 'Qty', 'Price', 'LineTaxCode',
+    'LineTotal', 'Total', 'Tax', 'NetTotal', 'Paid', 'Credited', 'Outstanding']
+
+export const InvoiceImportRequired = ['InvoiceNo', 'InvoiceDate', 'CustomerId', 'TaxCode', 'ProductId', 'Qty']
+
+export interface InvoiceImportRow{
+    rowno:number // line in the file, header is line 1
+    ref:string // InvoiceNo column; groups the lines of one invoice, the series assigns the real number
+    invoicedate:string
+    status:string
+    customerid:string
+    deliveryaddress:string
+    taxcode:string
+    productid:string
+    qty:string
+    price:string
+    linetaxcode:string
+    errors:string[]
+}
+
+export interface InvoiceImportGroup{
+    ref:string
+    rows:InvoiceImportRow[]
+    invoice:Invoice|null // built only when every row is valid
+    issue:boolean // Status column asked for the invoice to be issued after it is created
+}
+
+export interface InvoiceImportResult{
+    ref:string
+    invoiceno?:string
+    error?:string
+}
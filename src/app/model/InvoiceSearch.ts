@@ -0,0 +1,29 @@
+import { Invoice } from "./Invoice"
+
+export interface InvoiceFilter{
+    q?:string // customer, invoice number or product; json-server full-text search
+    status?:string
+    taxcode?:string
+    fromdate?:string // yyyy-MM-dd, both days inclusive
+    todate?:string
+    minamount?:number|null // on nettotal
+    maxamount?:number|null
+    page:number // 1-based
+    limit:number
+    sort?:string
+    order?:'asc'|'desc'
+}
+
+// Issued and paid invoices only; drafts and cancelled invoices are not counted
+export interface InvoiceTotals{
+    count:number
+    total:number
+    tax:number
+    nettotal:number
+    outstanding:number
+}
+
+export interface InvoiceSearchResult{
+    invoices:Invoice[] // the requested page
+    count:number // every invoice matching the filter, for the paginator
+}
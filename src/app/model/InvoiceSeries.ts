@@ -0,0 +1,7 @@
+export interface InvoiceSeries{
+    id:string
+    prefix:string
+    padding:number
+    fystartmonth:number // 1-12, April (4) for the Indian financial year
+    counters:{ [financialyear:string]:number } // last number issued per financial year
+}
@@ -4,5 +4,8 @@ export interface Invoiceproducts{
     description:string
     price:number
     qty:number
-    total:number
+    total:number // qty x price, rounded
+    taxcode?:string // line tax; older invoices only have the invoice-level tax
+    taxtype?:string
+    taxperc?:number
 }
\ No newline at end of file
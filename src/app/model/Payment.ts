@@ -0,0 +1,28 @@
+import { Invoice } from "./Invoice"
+import { ReversalResponse, WithdrawalResponse } from "../banking/models/transaction.model"
+
+export const PaymentModes = ['Cash', 'Cheque', 'Bank Transfer', 'UPI', 'Card']
+
+// Mode of payments settled by debiting a banking account
+export const AccountPaymentMode = 'Bank Account'
+
+export interface Payment{
+    id:number
+    invoiceId:number // json-server nests /invoice/:id/payments on this key
+    paymentdate:Date
+    amount:number
+    mode:string
+    reference:string
+    accountid?:number // Bank Account payments: the debited account and its ledger entry
+    accountnumber?:string
+    transactionid?:number
+}
+
+// What a payment from a banking account did to the account, for the caller to pass on to the banking store
+export interface AccountPayment{
+    accountid:number
+    withdrawal?:WithdrawalResponse // missing when the withdrawal itself failed
+    reversals:ReversalResponse[] // entries that took the withdrawal back after the payment could not be recorded
+    invoice?:Invoice // the updated invoice, once the payment is recorded
+    error?:string
+}
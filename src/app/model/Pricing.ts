@@ -0,0 +1,39 @@
+export enum TaxType {
+    Inclusive = 'Inclusive',
+    Exclusive = 'Exclusive'
+}
+
+export interface TaxRate{
+    taxcode:string
+    taxtype:TaxType
+    taxperc:number
+}
+
+// A line as it comes from a form or a stored invoice; the tax fields fall back to the invoice default
+export interface PricingLine{
+    qty:number|string
+    price:number|string
+    taxcode?:string
+    taxtype?:string
+    taxperc?:number
+}
+
+export interface PricedLine extends TaxRate{
+    amount:number // qty x price, as entered (tax included for Inclusive rates)
+    taxable:number // amount before tax
+    tax:number
+    nettotal:number // amount payable
+}
+
+export interface TaxBreakdown extends TaxRate{
+    taxable:number
+    tax:number
+}
+
+export interface PricingResult{
+    lines:PricedLine[]
+    total:number // taxable value of the lines
+    tax:number
+    nettotal:number // total + tax
+    breakdown:TaxBreakdown[] // one entry per tax code
+}
@@ -0,0 +1,47 @@
+export type SalesPeriod = 'day' | 'week' | 'month'
+
+export interface SalesPeriodRow{
+    key:string // yyyy-MM-dd of the first day in the period
+    fromdate:string // yyyy-MM-dd, both days inclusive; used for the drill-down into the invoice list
+    todate:string
+    count:number
+    revenue:number // net total, tax included
+    tax:number
+}
+
+// One row per line tax rate, as the pricing breakdown groups them
+export interface SalesTaxRow{
+    taxcode:string
+    taxtype:string
+    taxperc:number
+    taxable:number
+    tax:number
+}
+
+export interface SalesCustomerRow{
+    customerid:string
+    customername:string
+    count:number
+    revenue:number
+}
+
+export interface SalesProductRow{
+    productid:string
+    name:string
+    qty:number
+    value:number // taxable value of the lines
+}
+
+export interface SalesDashboard{
+    fromdate:string
+    todate:string
+    count:number
+    revenue:number
+    tax:number
+    outstanding:number
+    periods:{ [period in SalesPeriod]: SalesPeriodRow[] }
+    taxes:SalesTaxRow[]
+    customers:SalesCustomerRow[] // by revenue
+    productsbyqty:SalesProductRow[]
+    productsbyvalue:SalesProductRow[]
+}
@@ -1,4 +1,5 @@
 export interface Tax{
     id:string
     perc:number
-}
\ No newline at end of file
+    type:string // 'Inclusive' when prices already include the tax, otherwise 'Exclusive'
+}
@@ -1,6 +1,9 @@
 export interface Associate{
-    id:string
+    id:string // CS001, CS002, ...
     name:string
-    address:string
-    taxcode:string
-}
\ No newline at end of file
+    address:string // must end with the 6-digit PIN code
+    taxcode:string // default tax for new invoices
+    creditlimit?:number // unpaid invoices plus a new one may not exceed this; 0 or missing means no limit
+    isActive?:boolean // missing on customers saved before deactivation existed, treated as active
+    deactivateddate?:Date
+}
@@ -0,0 +1,70 @@
+import { TestBed } from '@angular/core/testing';
+import { provideHttpClient } from '@angular/common/http';
+import { HttpTestingController, provideHttpClientTesting } from '@angular/common/http/testing';
+
+import { CustomerService } from './customer.service';
+import { Associate } from '../model/customer';
+
+describe('CustomerService', () => {
+  let service: CustomerService;
+  let http: HttpTestingController;
+
+  const customer: Associate = { id: 'CS002', name: 'Ramesh Kannan', address: '2nd street, chennai 600021', taxcode: 'Exclusive' };
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({
+      providers: [provideHttpClient(), provideHttpClientTesting()]
+    });
+    service = TestBed.inject(CustomerService);
+    http = TestBed.inject(HttpTestingController);
+  });
+
+  afterEach(() => {
+    http.verify();
+  });
+
+  it('should be created', () => {
+    expect(service).toBeTruthy();
+  });
+
+  it('should continue the CS code series', () => {
+    expect(service.Nextcustomerid([])).toBe('CS001');
+    expect(service.Nextcustomerid([{ ...customer, id: 'CS009' }, { ...customer, id: 'X1' }, customer])).toBe('CS010');
+  });
+
+  it('should treat customers without isActive as active', () => {
+    expect(service.Isactive(customer)).toBeTrue();
+    expect(service.Isactive({ ...customer, isActive: false })).toBeFalse();
+  });
+
+  it('should not delete a customer that has invoices', () => {
+    let error = '';
+    service.Deletecustomer(customer).subscribe({ error: err => error = err.message });
+
+    http.expectOne(req => req.url == 'http://localhost:3000/invoice' && req.params.get('customerid') == 'CS002')
+      .flush([{ id: 1 }, { id: 2 }]);
+
+    expect(error).toContain('has 2 invoice(s)');
+  });
+
+  it('should delete a customer without invoices', () => {
+    let deleted = false;
+    service.Deletecustomer(customer).subscribe(() => deleted = true);
+
+    http.expectOne(req => req.url == 'http://localhost:3000/invoice').flush([]);
+    let req = http.expectOne('http://localhost:3000/customer/CS002');
+    expect(req.request.method).toBe('DELETE');
+    req.flush({});
+
+    expect(deleted).toBeTrue();
+  });
+
+  it('should keep the active state when a customer is edited', () => {
+    service.Updatecustomer({ ...customer, name: 'Ramesh K', isActive: true }).subscribe();
+
+    http.expectOne('http://localhost:3000/customer/CS002').flush({ ...customer, isActive: false });
+    let req = http.expectOne(req => req.method == 'PUT');
+    expect(req.request.body).toEqual(jasmine.objectContaining({ name: 'Ramesh K', isActive: false }));
+    req.flush({});
+  });
+});
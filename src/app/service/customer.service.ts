@@ -0,0 +1,77 @@
+import { HttpClient, HttpParams } from '@angular/common/http';
+import { Injectable } from '@angular/core';
+import { map, switchMap, throwError } from 'rxjs';
+import { Associate } from '../model/customer';
+import { Invoice } from '../model/Invoice';
+
+// Invoicing customers (the customer collection); invoices keep a copy of the name and address
+@Injectable({
+  providedIn: 'root'
+})
+export class CustomerService {
+
+  constructor(private http: HttpClient) { }
+
+  Getallcustomer() {
+    return this.http.get<Associate[]>('http://localhost:3000/customer', { params: new HttpParams().set('_sort', 'id') });
+  }
+
+  Getcustomer(customerid: string) {
+    return this.http.get<Associate>('http://localhost:3000/customer/' + customerid);
+  }
+
+  Isactive(customer: Associate) {
+    return customer.isActive ?? true;
+  }
+
+  // The next code is taken from the existing customers, so the id follows the CS001 pattern
+  Createcustomer(customer: Associate) {
+    return this.Getallcustomer().pipe(
+      switchMap(customers => this.http.post<Associate>('http://localhost:3000/customer', {
+        ...customer,
+        id: this.Nextcustomerid(customers),
+        isActive: true
+      }))
+    );
+  }
+
+  // Active state is changed through Setactive only, never through the edit form
+  Updatecustomer(customer: Associate) {
+    return this.Getcustomer(customer.id).pipe(
+      switchMap(current => this.http.put<Associate>('http://localhost:3000/customer/' + customer.id, {
+        ...customer,
+        isActive: current.isActive,
+        deactivateddate: current.deactivateddate
+      }))
+    );
+  }
+
+  // Inactive customers keep their invoices but can no longer be picked for new ones
+  Setactive(customer: Associate, active: boolean) {
+    return this.http.patch<Associate>('http://localhost:3000/customer/' + customer.id, {
+      isActive: active,
+      deactivateddate: active ? null : new Date()
+    });
+  }
+
+  Invoicecount(customerid: string) {
+    return this.http.get<Invoice[]>('http://localhost:3000/invoice', { params: new HttpParams().set('customerid', customerid) }).pipe(
+      map(invoices => invoices.length)
+    );
+  }
+
+  // Customers that appear on an invoice are never deleted, only deactivated
+  Deletecustomer(customer: Associate) {
+    return this.Invoicecount(customer.id).pipe(
+      switchMap(count => count > 0
+        ? throwError(() => new Error(customer.name + ' has ' + count + ' invoice(s) and cannot be deleted. Deactivate the customer instead.'))
+        : this.http.delete('http://localhost:3000/customer/' + customer.id))
+    );
+  }
+
+  Nextcustomerid(customers: Associate[]) {
+    let last = Math.max(0, ...customers.map(x => /^CS(\d+)$/.exec(x.id)).filter(x => x != null).map(x => Number(x![1])));
+    return 'CS' + (last + 1).toString().padStart(3, '0');
+  }
+
+}
@@ -0,0 +1,153 @@
+import { TestBed } from '@angular/core/testing';
+import { provideHttpClient } from '@angular/common/http';
+import { HttpTestingController, provideHttpClientTesting } from '@angular/common/http/testing';
+import { of, throwError } from 'rxjs';
+
+import { InvoiceTransferService } from './invoice-transfer.service';
+import { InvoiceService } from './invoice.service';
+import { Invoice, InvoiceStatus } from '../model/Invoice';
+import { InvoiceImportGroup } from '../model/InvoiceImport';
+import { Associate } from '../model/customer';
+import { Products } from '../model/Productmodel';
+import { Tax } from '../model/Tax';
+import { environment } from '../../environments/environment';
+
+describe('InvoiceTransferService', () => {
+  let service: InvoiceTransferService;
+  let invoiceservice: InvoiceService;
+  let http: HttpTestingController;
+
+  const customers: Associate[] = [{ id: 'CS001', name: 'Ravi krishna', address: '1st street, chennai 600001', taxcode: 'GST10' }];
+  const taxes: Tax[] = [{ id: 'GST10', perc: 10, type: 'Exclusive' }, { id: 'GST5', perc: 5, type: 'Exclusive' }];
+  const products: Products[] = [{ id: 1, name: 'Pen', description: 'Blue pen', price: 10, status: true }];
+  const header = 'InvoiceNo,InvoiceDate,Status,CustomerId,TaxCode,ProductId,Qty,Price,LineTaxCode';
+
+  const invoice: Invoice = {
+    id: 1, invoiceno: 'INV/2026-27/00001', status: InvoiceStatus.Issued, customerid: 'CS001', customername: 'Kannan, R',
+    deliveryaddress: 'Flat "4B", chennai 600001', invoicedate: new Date('2026-04-01T10:00:00'),
+    taxcode: 'GST10', taxtype: 'Exclusive', taxperc: 10, total: 20, tax: 2, nettotal: 22,
+    products: [{ productid: '1', name: 'Pen', description: '', qty: 2, price: 10, total: 20 }]
+  };
+
+  // Reads the CSV and answers the customer, tax and product lookups of the validation
+  const validate = (csv: string) => {
+    let groups: InvoiceImportGroup[] = [];
+    service.Validateimport(service.Readimport(csv)).subscribe(res => groups = res);
+    http.expectOne('http://localhost:3000/customer').flush(customers);
+    http.expectOne('http://localhost:3000/tax').flush(taxes);
+    http.expectOne(environment.APIUrl).flush(products);
+    return groups;
+  };
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({
+      providers: [provideHttpClient(), provideHttpClientTesting()]
+    });
+    service = TestBed.inject(InvoiceTransferService);
+    invoiceservice = TestBed.inject(InvoiceService);
+    http = TestBed.inject(HttpTestingController);
+  });
+
+  afterEach(() => {
+    http.verify();
+  });
+
+  it('should be created', () => {
+    expect(service).toBeTruthy();
+  });
+
+  describe('Parsecsv', () => {
+    it('should keep commas and doubled quotes inside quoted cells', () => {
+      expect(service.Parsecsv('a,"b, c","say ""hi"""')).toEqual([['a', 'b, c', 'say "hi"']]);
+    });
+
+    it('should keep line breaks inside quoted cells and split records on CRLF', () => {
+      expect(service.Parsecsv('\uFEFFx,"line 1\r\nline 2"\r\ny,z\r\n')).toEqual([['x', 'line 1\r\nline 2'], ['y', 'z']]);
+    });
+  });
+
+  describe('Readimport', () => {
+    it('should name the missing required columns', () => {
+      expect(() => service.Readimport('InvoiceNo,CustomerId\r\nA,CS001'))
+        .toThrowError('Missing column(s): InvoiceDate, TaxCode, ProductId, Qty');
+    });
+
+    it('should read columns by header name in any order and case', () => {
+      let rows = service.Readimport('qty,PRODUCTID,InvoiceNo,InvoiceDate,CustomerId,TaxCode\r\n2, 1 ,A,2026-04-01,CS001,GST10');
+      expect(rows).toEqual([jasmine.objectContaining({ rowno: 2, ref: 'A', qty: '2', productid: '1', status: '', price: '', errors: [] })]);
+    });
+  });
+
+  describe('Validateimport', () => {
+    it('should build one invoice per InvoiceNo with the line tax codes', () => {
+      let groups = validate(header + '\r\n' +
+        'A,2026-04-01,Issued,CS001,GST10,1,2,,\r\n' +
+        'A,2026-04-01,Issued,CS001,GST10,1,1,20,GST5');
+      expect(groups.length).toBe(1);
+      expect(groups[0].issue).toBeTrue();
+      expect(groups[0].invoice).toEqual(jasmine.objectContaining({
+        customerid: 'CS001', customername: 'Ravi krishna', deliveryaddress: '1st street, chennai 600001',
+        total: 40, tax: 3, nettotal: 43
+      }));
+      expect(groups[0].invoice!.products.map(x => [x.price, x.taxcode])).toEqual([[10, 'GST10'], [20, 'GST5']]);
+    });
+
+    it('should report unknown customers, products and tax codes per row', () => {
+      let groups = validate(header + '\r\n' +
+        'A,2026-04-01,,CS999,GST0,9,1,,\r\n' +
+        'B,2026-04-01,,CS001,GST10,1,0,,GST7');
+      expect(groups[0].invoice).toBeNull();
+      expect(groups[0].rows[0].errors).toEqual(jasmine.arrayContaining(['Unknown customer CS999', 'Unknown tax code GST0', 'Unknown product 9']));
+      expect(groups[1].invoice).toBeNull();
+      expect(groups[1].rows[0].errors).toEqual(jasmine.arrayContaining(['Unknown line tax code GST7', 'Qty must be a number greater than zero']));
+    });
+
+    it('should require the lines of one invoice to share customer, date and tax code', () => {
+      let groups = validate(header + '\r\n' +
+        'A,2026-04-01,,CS001,GST10,1,1,,\r\n' +
+        'A,2026-04-02,,CS001,GST10,1,1,,');
+      expect(groups[0].invoice).toBeNull();
+      expect(groups[0].rows[1].errors).toEqual(['Customer, date and tax code must match line 2 of invoice A']);
+    });
+  });
+
+  describe('Importinvoices', () => {
+    const group = (ref: string, issue = false): InvoiceImportGroup => ({ ref: ref, rows: [], invoice: { ...invoice, id: 0 }, issue: issue });
+
+    it('should report each failed invoice and carry on with the rest', () => {
+      spyOn(invoiceservice, 'SaveInvoice').and.returnValues(
+        throwError(() => new Error('The number series could not be updated.')),
+        of({ ...invoice, id: 2, invoiceno: 'INV/2026-27/00002', status: InvoiceStatus.Draft }));
+      let results: unknown[] = [];
+      service.Importinvoices([group('A'), group('B'), { ...group('C'), invoice: null }]).subscribe(res => results = res);
+      expect(results).toEqual([
+        { ref: 'A', error: 'The number series could not be updated.' },
+        { ref: 'B', invoiceno: 'INV/2026-27/00002' }
+      ]);
+    });
+
+    it('should issue the saved invoice when the Status column asks for it', () => {
+      let saved = { ...invoice, id: 3, invoiceno: 'INV/2026-27/00003', status: InvoiceStatus.Draft };
+      spyOn(invoiceservice, 'SaveInvoice').and.returnValue(of(saved));
+      let issue = spyOn(invoiceservice, 'IssueInvoice').and.returnValue(of({ ...saved, status: InvoiceStatus.Issued }));
+      service.Importinvoices([group('A', true)]).subscribe();
+      expect(issue.calls.mostRecent().args[0]).toBe(saved);
+    });
+  });
+
+  describe('Csvtext', () => {
+    it('should write a header and one row per product line, quoting where needed', () => {
+      let lines = service.Csvtext([invoice]).split('\r\n');
+      expect(lines.length).toBe(2);
+      expect(lines[0]).toBe('InvoiceNo,InvoiceDate,Status,CustomerId,CustomerName,DeliveryAddress,TaxCode,LineNo,ProductId,' +
+        'ProductName,Qty,Price,LineTaxCode,LineTotal,Total,Tax,NetTotal,Paid,Credited,Outstanding');
+      expect(lines[1]).toContain(',"Kannan, R","Flat ""4B"", chennai 600001",');
+    });
+
+    it('should keep formula-like text from running in a spreadsheet', () => {
+      let csv = service.Csvtext([{ ...invoice, customername: '=HYPERLINK("x")', deliveryaddress: '+91 street, chennai 600001' }]);
+      expect(csv).toContain(`,"'=HYPERLINK(""x"")","'+91 street, chennai 600001",`);
+      expect(service.Readimport(csv)[0].deliveryaddress).toBe('+91 street, chennai 600001');
+    });
+  });
+});
@@ -0,0 +1,292 @@
+import { Injectable } from '@angular/core';
+import { formatDate } from '@angular/common';
+import { catchError, concatMap, forkJoin, from, map, Observable, of, switchMap, throwError, toArray } from 'rxjs';
+import { Invoice, InvoiceStatus } from '../model/Invoice';
+import { CreditCheck, CreditOverride } from '../model/CreditLimit';
+import { Invoiceproducts } from '../model/Invoiceproduct';
+import { InvoiceCsvColumns, InvoiceImportGroup, InvoiceImportRequired, InvoiceImportResult, InvoiceImportRow } from '../model/InvoiceImport';
+import { Associate } from '../model/customer';
+import { Products } from '../model/Productmodel';
+import { Tax } from '../model/Tax';
+import { InvoiceService } from './invoice.service';
+import { ProductService } from './product.service';
+import { PricingService } from './pricing.service';
+import { CustomerService } from './customer.service';
+
+// CSV and JSON export of invoices, and the CSV import behind the import wizard
+@Injectable({
+  providedIn: 'root'
+})
+export class InvoiceTransferService {
+
+  constructor(private service: InvoiceService, private proservice: ProductService,
+    private pricing: PricingService, private customerservice: CustomerService) { }
+
+  Exportcsv(invoices: Invoice[]) {
+    this.Download(new Blob([this.Csvtext(invoices)], { type: 'text/csv;charset=utf-8' }), this.Filename('csv'));
+  }
+
+  // Header row, then one row per product line
+  Csvtext(invoices: Invoice[]) {
+    let rows: (string | number)[][] = [InvoiceCsvColumns];
+    invoices.forEach(invoice => {
+      let priced = this.pricing.Calculate(invoice.products, this.service.Defaulttaxrate(invoice));
+      invoice.products.forEach((line, i) => {
+        rows.push([
+          invoice.invoiceno ?? invoice.id,
+          formatDate(invoice.invoicedate, 'yyyy-MM-dd', 'en-US'),
+          this.service.Invoicestatus(invoice),
+          invoice.customerid,
+          invoice.customername,
+          invoice.deliveryaddress,
+          invoice.taxcode,
+          i + 1,
+          line.productid,
+          line.name,
+          line.qty,
+          this.Amount(line.price),
+          priced.lines[i].taxcode,
+          this.Amount(priced.lines[i].amount),
+          this.Amount(invoice.total),
+          this.Amount(invoice.tax),
+          this.Amount(invoice.nettotal),
+          this.Amount(invoice.paidamount ?? 0),
+          this.Amount(invoice.creditedamount ?? 0),
+          this.Amount(this.service.Outstanding(invoice))
+        ]);
+      });
+    });
+    return rows.map(row => row.map(cell => this.Csvcell(cell)).join(',')).join('\r\n');
+  }
+
+  Exportjson(invoices: Invoice[]) {
+    this.Download(new Blob([JSON.stringify(invoices, null, 2)], { type: 'application/json' }), this.Filename('json'));
+  }
+
+  // Reads the CSV into rows; an error is thrown when required columns are missing
+  Readimport(text: string): InvoiceImportRow[] {
+    let records = this.Parsecsv(text).filter(record => record.some(cell => cell.trim() != ''));
+    if (records.length == 0) {
+      throw new Error('The file is empty.');
+    }
+    let header = records[0].map(x => x.trim().toLowerCase());
+    let missing = InvoiceImportRequired.filter(x => !header.includes(x.toLowerCase()));
+    if (missing.length > 0) {
+      throw new Error('Missing column(s): ' + missing.join(', '));
+    }
+    // the apostrophe the export puts in front of formula-like text is dropped again
+    let cell = (record: string[], column: string) =>
+      (record[header.indexOf(column.toLowerCase())] ?? '').replace(/^'(?=[=+\-@\t\r])/, '').trim();
+
+    return records.slice(1).map((record, i) => ({
+      rowno: i + 2,
+      ref: cell(record, 'InvoiceNo'),
+      invoicedate: cell(record, 'InvoiceDate'),
+      status: cell(record, 'Status'),
+      customerid: cell(record, 'CustomerId'),
+      deliveryaddress: cell(record, 'DeliveryAddress'),
+      taxcode: cell(record, 'TaxCode'),
+      productid: cell(record, 'ProductId'),
+      qty: cell(record, 'Qty'),
+      price: cell(record, 'Price'),
+      linetaxcode: cell(record, 'LineTaxCode'),
+      errors: []
+    }));
+  }
+
+  // Checks every row against the customer, product and tax masters and groups the rows into invoices
+  Validateimport(rows: InvoiceImportRow[]): Observable<InvoiceImportGroup[]> {
+    return forkJoin({
+      customers: this.service.Getallcustomer(),
+      taxes: this.service.Getalltaxes(),
+      products: this.proservice.GetAll()
+    }).pipe(
+      map(master => {
+        let groups: InvoiceImportGroup[] = [];
+        rows.forEach(row => {
+          row.errors = this.Validaterow(row, master.customers, master.taxes, master.products);
+          let group = groups.find(x => x.ref == row.ref);
+          if (group == null) {
+            group = { ref: row.ref, rows: [], invoice: null, issue: false };
+            groups.push(group);
+          }
+          // the invoice fields are taken from the first line of each invoice
+          let first = group.rows[0];
+          if (first != null && row.ref != '' &&
+            (row.customerid != first.customerid || row.invoicedate != first.invoicedate || row.taxcode != first.taxcode)) {
+            row.errors.push('Customer, date and tax code must match line ' + first.rowno + ' of invoice ' + row.ref);
+          }
+          group.rows.push(row);
+        });
+        groups.forEach(group => {
+          group.issue = (group.rows[0].status || InvoiceStatus.Draft).toLowerCase() == InvoiceStatus.Issued.toLowerCase();
+          if (group.rows.every(x => x.errors.length == 0)) {
+            group.invoice = this.Buildinvoice(group.rows, master.customers, master.taxes, master.products);
+          }
+        });
+        return groups;
+      })
+    );
+  }
+
+  // Creates the valid invoices one at a time so the series hands out numbers in file order.
+  // Invoices to be issued go through the same credit check as the list; approve asks for the override.
+  Importinvoices(groups: InvoiceImportGroup[], approve?: (check: CreditCheck) => Observable<CreditOverride | undefined>): Observable<InvoiceImportResult[]> {
+    return from(groups.filter(x => x.invoice != null)).pipe(
+      concatMap(group => this.service.SaveInvoice(group.invoice!).pipe(
+        switchMap(saved => group.issue ? this.service.IssueInvoice(saved, approve).pipe(
+          catchError(err => throwError(() => new Error('Created as draft ' + saved.invoiceno + '. ' + err.message)))
+        ) : of(saved)),
+        map(saved => ({ ref: group.ref, invoiceno: saved.invoiceno } as InvoiceImportResult)),
+        catchError(err => of({ ref: group.ref, error: err.message ?? 'Save failed' } as InvoiceImportResult))
+      )),
+      toArray()
+    );
+  }
+
+  // RFC 4180 style: quoted cells may hold commas, line breaks and doubled quotes
+  Parsecsv(text: string): string[][] {
+    let records: string[][] = [];
+    let record: string[] = [];
+    let cell = '';
+    let quoted = false;
+    let source = text.replace(/^\uFEFF/, '');
+
+    for (let i = 0; i < source.length; i++) {
+      let ch = source[i];
+      if (quoted) {
+        if (ch == '"' && source[i + 1] == '"') {
+          cell += '"';
+          i++;
+        } else if (ch == '"') {
+          quoted = false;
+        } else {
+          cell += ch;
+        }
+      } else if (ch == '"') {
+        quoted = true;
+      } else if (ch == ',') {
+        record.push(cell);
+        cell = '';
+      } else if (ch == '\n' || ch == '\r') {
+        if (ch == '\r' && source[i + 1] == '\n') {
+          i++;
+        }
+        record.push(cell);
+        records.push(record);
+        record = [];
+        cell = '';
+      } else {
+        cell += ch;
+      }
+    }
+    if (cell != '' || record.length > 0) {
+      record.push(cell);
+      records.push(record);
+    }
+    return records;
+  }
+
+  private Validaterow(row: InvoiceImportRow, customers: Associate[], taxes: Tax[], products: Products[]) {
+    let errors: string[] = [];
+    if (row.ref == '') {
+      errors.push('InvoiceNo is required');
+    }
+    if (this.Parsedate(row.invoicedate) == null) {
+      errors.push('InvoiceDate "' + row.invoicedate + '" is not a valid date (yyyy-MM-dd)');
+    }
+    let status = row.status.toLowerCase();
+    if (status != '' && status != InvoiceStatus.Draft.toLowerCase() && status != InvoiceStatus.Issued.toLowerCase()) {
+      errors.push('Status must be Draft or Issued');
+    }
+    let customer = customers.find(x => x.id == row.customerid);
+    if (customer == null) {
+      errors.push('Unknown customer ' + (row.customerid || '(blank)'));
+    } else if (!this.customerservice.Isactive(customer)) {
+      errors.push('Customer ' + row.customerid + ' is inactive');
+    }
+    if (!taxes.some(x => x.id == row.taxcode)) {
+      errors.push('Unknown tax code ' + (row.taxcode || '(blank)'));
+    }
+    if (row.linetaxcode != '' && !taxes.some(x => x.id == row.linetaxcode)) {
+      errors.push('Unknown line tax code ' + row.linetaxcode);
+    }
+    if (!products.some(x => x.id.toString() == row.productid)) {
+      errors.push('Unknown product ' + (row.productid || '(blank)'));
+    }
+    if (!(Number(row.qty) > 0)) {
+      errors.push('Qty must be a number greater than zero');
+    }
+    if (row.price != '' && !(Number(row.price) >= 0)) {
+      errors.push('Price must be a number of zero or more');
+    }
+    return errors;
+  }
+
+  private Buildinvoice(rows: InvoiceImportRow[], customers: Associate[], taxes: Tax[], products: Products[]): Invoice {
+    let first = rows[0];
+    let customer = customers.find(x => x.id == first.customerid)!;
+    let invoicetax = this.pricing.Taxrate(taxes.find(x => x.id == first.taxcode)!);
+    let lines: Invoiceproducts[] = rows.map(row => {
+      let product = products.find(x => x.id.toString() == row.productid)!;
+      let linetax = taxes.find(x => x.id == (row.linetaxcode || first.taxcode))!;
+      return {
+        productid: row.productid,
+        name: product.name,
+        description: product.description,
+        price: row.price != '' ? Number(row.price) : Number(product.price),
+        qty: Number(row.qty),
+        total: 0,
+        ...this.pricing.Taxrate(linetax)
+      };
+    });
+    let priced = this.pricing.Calculate(lines, invoicetax);
+    return {
+      id: 0,
+      customerid: customer.id,
+      customername: customer.name,
+      deliveryaddress: first.deliveryaddress || customer.address,
+      invoicedate: this.Parsedate(first.invoicedate)!,
+      taxcode: invoicetax.taxcode,
+      taxtype: invoicetax.taxtype,
+      taxperc: invoicetax.taxperc,
+      products: lines.map((x, i) => ({ ...x, total: priced.lines[i].amount })),
+      total: priced.total,
+      tax: priced.tax,
+      nettotal: priced.nettotal
+    };
+  }
+
+  // yyyy-MM-dd is read as a local date; anything else must be a full ISO timestamp
+  private Parsedate(value: string): Date | null {
+    let date = /^\d{4}-\d{2}-\d{2}$/.test(value) ? new Date(value + 'T00:00:00') : new Date(value);
+    return value == '' || isNaN(date.getTime()) ? null : date;
+  }
+
+  private Amount(value: number | string) {
+    return this.pricing.Round(Number(value)).toFixed(2);
+  }
+
+  // Text starting with =, +, -, @, tab or CR would run as a formula in a spreadsheet, so it gets a leading apostrophe
+  private Csvcell(value: string | number) {
+    let text = String(value ?? '');
+    if (typeof value == 'string' && /^[=+\-@\t\r]/.test(text) && isNaN(Number(text))) {
+      text = "'" + text;
+    }
+    return /[",\r\n]/.test(text) ? '"' + text.replace(/"/g, '""') + '"' : text;
+  }
+
+  private Filename(extension: string) {
+    return 'invoices-' + formatDate(new Date(), 'yyyyMMdd-HHmm', 'en-US') + '.' + extension;
+  }
+
+  private Download(blob: Blob, filename: string) {
+    let url = URL.createObjectURL(blob);
+    let link = document.createElement('a');
+    link.href = url;
+    link.download = filename;
+    link.click();
+    URL.revokeObjectURL(url);
+  }
+
+}
@@ -1,16 +1,27 @@
-import { HttpClient } from '@angular/common/http';
+import { HttpClient, HttpParams } from '@angular/common/http';
 import { Injectable } from '@angular/core';
 import { Customers } from '../model/masterModel';
 import { Associate } from '../model/customer';
 import { Tax } from '../model/Tax';
-import { Invoice } from '../model/Invoice';
+import { Invoice, InvoiceStatus, InvoiceTransitions } from '../model/Invoice';
+import { InvoiceSeries } from '../model/InvoiceSeries';
+import { AccountPayment, AccountPaymentMode, Payment } from '../model/Payment';
+import { CreditNote, CreditNoteproducts } from '../model/CreditNote';
+import { TransactionService } from '../banking/services/transaction.service';
+import { ReversalResponse, WithdrawalResponse } from '../banking/models/transaction.model';
+import { PricingService } from './pricing.service';
+import { TaxRate } from '../model/Pricing';
+import { InvoiceFilter, InvoiceSearchResult, InvoiceTotals } from '../model/InvoiceSearch';
+import { CreditCheck, CreditOverride } from '../model/CreditLimit';
+import { catchError, concatMap, forkJoin, from, map, Observable, of, switchMap, tap, throwError, toArray } from 'rxjs';
 
 @Injectable({
   providedIn: 'root'
 })
 export class InvoiceService {
 
-  constructor(private http:HttpClient) { }
+  constructor(private http:HttpClient, private transactionService:TransactionService,
+    private pricing:PricingService) { }
 
   Getallcustomer(){
     return this.http.get<Associate[]>('http://localhost:3000/customer')
@@ -26,19 +37,475 @@ export class InvoiceService {
     return this.http.get<Tax>('http://localhost:3000/tax/'+customerid)
   }
 
-  SaveInvoice(invoicedata:any){
-    return this.http.post('http://localhost:3000/invoice',invoicedata);
+  GetInvoiceSeries(seriesid:string='INV'){
+    return this.http.get<InvoiceSeries>('http://localhost:3000/invoiceseries/'+seriesid)
   }
+
+  SaveInvoice(invoicedata:Invoice):Observable<Invoice>{
+    return this.Savenumbered<Invoice>('INV', 'invoice', 'invoiceno', invoicedata.invoicedate,
+      { ...invoicedata, status: InvoiceStatus.Draft });
+  }
+
+  // The number is only taken from the series when the document is saved, and the
+  // counter is put back if the save fails, so every financial year stays gap-free.
+  private Savenumbered<T extends { id?: number }>(seriesid:string, collection:string, numberfield:keyof T & string,
+    documentdate:Date, body:Omit<T, 'id'>):Observable<T>{
+    return this.GetInvoiceSeries(seriesid).pipe(
+      switchMap(series => {
+        let financialyear = this.Financialyear(documentdate, series.fystartmonth);
+        let lastnumber = series.counters[financialyear] ?? 0;
+        let documentno = this.Formatinvoiceno(series, financialyear, lastnumber + 1);
+
+        return this.http.get<T[]>('http://localhost:3000/'+collection+'?'+numberfield+'='+encodeURIComponent(documentno)).pipe(
+          switchMap(existing => {
+            // Someone else saved with this number first; move the counter past it and try again
+            if (existing.length > 0) {
+              return this.Setseriescounter(series, financialyear, lastnumber + 1).pipe(
+                switchMap(() => this.Savenumbered<T>(seriesid, collection, numberfield, documentdate, body))
+              );
+            }
+            return this.Setseriescounter(series, financialyear, lastnumber + 1).pipe(
+              switchMap(() => this.http.post<T>('http://localhost:3000/'+collection,
+                { ...body, [numberfield]: documentno, financialyear: financialyear })),
+              catchError(err => this.Setseriescounter(series, financialyear, lastnumber).pipe(
+                catchError(() => of(null)),
+                switchMap(() => throwError(() => err))
+              ))
+            );
+          })
+        );
+      })
+    );
+  }
+
+  // Financial year label of a date, e.g. 2026-27 when the year starts in April
+  Financialyear(invoicedate:Date|string, fystartmonth:number){
+    let date = new Date(invoicedate);
+    let startyear = date.getMonth() + 1 >= fystartmonth ? date.getFullYear() : date.getFullYear() - 1;
+    if (fystartmonth == 1) {
+      return startyear.toString();
+    }
+    return startyear + '-' + ((startyear + 1) % 100).toString().padStart(2, '0');
+  }
+
+  Formatinvoiceno(series:InvoiceSeries, financialyear:string, seq:number){
+    return series.prefix + '/' + financialyear + '/' + seq.toString().padStart(series.padding, '0');
+  }
+
+  private Setseriescounter(series:InvoiceSeries, financialyear:string, lastnumber:number){
+    let counters = { ...series.counters, [financialyear]: lastnumber };
+    return this.http.patch<InvoiceSeries>('http://localhost:3000/invoiceseries/'+series.id, { counters: counters });
+  }
+
   GetAllInvoice(){
     return this.http.get<Invoice[]>('http://localhost:3000/invoice');
   }
-  GetInvoicebyCode(invoiceNo:Invoice){
+  // One page of the filtered invoices and how many match the filter in all.
+  // json-server pages with _page/_limit, reports the match count in X-Total-Count and searches every field,
+  // products included, with q.
+  SearchInvoices(filter:InvoiceFilter):Observable<InvoiceSearchResult>{
+    let params = this.Filterparams(filter)
+      .set('_page', filter.page)
+      .set('_limit', filter.limit);
+    if (filter.sort) {
+      params = params.set('_sort', filter.sort).set('_order', filter.order ?? 'asc');
+    }
+
+    return this.http.get<Invoice[]>('http://localhost:3000/invoice', { params: params, observe: 'response' }).pipe(
+      map(res => {
+        let invoices = res.body ?? [];
+        return {
+          invoices: invoices,
+          count: Number(res.headers.get('X-Total-Count')) || invoices.length
+        };
+      })
+    );
+  }
+
+  // Running totals of the invoices matching the filter. Drafts and cancelled invoices are not owed, so they are left out.
+  GetInvoiceTotals(filter:InvoiceFilter):Observable<InvoiceTotals>{
+    return this.http.get<Invoice[]>('http://localhost:3000/invoice', { params: this.Filterparams(filter) }).pipe(
+      map(invoices => invoices.filter(x => this.Invoicestatus(x) != InvoiceStatus.Draft && this.Invoicestatus(x) != InvoiceStatus.Cancelled)),
+      map(invoices => ({
+        count: invoices.length,
+        total: this.pricing.Sum(invoices.map(x => Number(x.total) || 0)),
+        tax: this.pricing.Sum(invoices.map(x => Number(x.tax) || 0)),
+        nettotal: this.pricing.Sum(invoices.map(x => Number(x.nettotal) || 0)),
+        outstanding: this.pricing.Sum(invoices.map(x => this.Outstanding(x)))
+      }))
+    );
+  }
+
+  // Every invoice matching the filter, in the filter's sort order (for totals and exports)
+  GetFilteredInvoices(filter:InvoiceFilter){
+    let params = this.Filterparams(filter);
+    if (filter.sort) {
+      params = params.set('_sort', filter.sort).set('_order', filter.order ?? 'asc');
+    }
+    return this.http.get<Invoice[]>('http://localhost:3000/invoice', { params: params });
+  }
+
+  private Filterparams(filter:InvoiceFilter){
+    let params = new HttpParams();
+    if (filter.q) {
+      params = params.set('q', filter.q);
+    }
+    if (filter.status) {
+      params = params.set('status', filter.status);
+    }
+    if (filter.taxcode) {
+      params = params.set('taxcode', filter.taxcode);
+    }
+    // invoice dates are stored as ISO timestamps, which compare correctly as strings
+    if (filter.fromdate) {
+      params = params.set('invoicedate_gte', new Date(filter.fromdate + 'T00:00:00').toISOString());
+    }
+    if (filter.todate) {
+      params = params.set('invoicedate_lte', new Date(filter.todate + 'T23:59:59.999').toISOString());
+    }
+    if (filter.minamount != null) {
+      params = params.set('nettotal_gte', filter.minamount);
+    }
+    if (filter.maxamount != null) {
+      params = params.set('nettotal_lte', filter.maxamount);
+    }
+    return params;
+  }
+
+  GetInvoicebyCode(invoiceNo:number|string){
     return this.http.get<Invoice>('http://localhost:3000/invoice/'+invoiceNo);
   }
+  // Only drafts can be changed; the number and status always come from the stored invoice
   UpdateInvoice(invoicedata:Invoice){
-    return this.http.put('http://localhost:3000/invoice/'+invoicedata.id,invoicedata);
+    return this.GetInvoicebyCode(invoicedata.id).pipe(
+      switchMap(current => {
+        if (this.Invoicestatus(current) != InvoiceStatus.Draft) {
+          return throwError(() => new Error('Invoice ' + current.invoiceno + ' is ' + current.status + ' and can no longer be edited.'));
+        }
+        return this.http.put<Invoice>('http://localhost:3000/invoice/'+invoicedata.id, {
+          ...invoicedata,
+          invoiceno: current.invoiceno,
+          financialyear: current.financialyear,
+          status: InvoiceStatus.Draft
+        });
+      })
+    );
+  }
+
+  Invoicestatus(invoice:Invoice){
+    return invoice.status ?? InvoiceStatus.Draft;
+  }
+
+  Canchangestatus(invoice:Invoice, status:InvoiceStatus){
+    return InvoiceTransitions[this.Invoicestatus(invoice)].includes(status);
+  }
+
+  // Issuing is what makes an invoice owed, so the credit limit is checked again here; drafts count for nothing.
+  // Over the limit, approve is asked for a supervisor override and the invoice stays a draft without one.
+  IssueInvoice(invoice:Invoice, approve?:(check:CreditCheck) => Observable<CreditOverride | undefined>){
+    if (!this.Canchangestatus(invoice, InvoiceStatus.Issued)) {
+      return this.ChangeInvoiceStatus(invoice, InvoiceStatus.Issued, {});
+    }
+    return this.Creditcheck(invoice.customerid, invoice.nettotal, invoice.id).pipe(
+      switchMap(check => {
+        if (check.exceededby == 0) {
+          return of(undefined);
+        }
+        return (approve ? approve(check) : of(undefined)).pipe(
+          switchMap(approval => approval ? of(approval) : throwError(() => new Error('Not issued: the credit limit of '
+            + check.customername + ' is exceeded by ' + check.exceededby + '. A supervisor has to approve the override.')))
+        );
+      }),
+      switchMap(approval => this.ChangeInvoiceStatus(invoice, InvoiceStatus.Issued,
+        approval ? { issueddate: new Date(), creditoverride: approval } : { issueddate: new Date() }))
+    );
+  }
+  // Invoices are never deleted so the number series stays gap-free; they are cancelled instead
+  CancelInvoice(invoice:Invoice, reason:string){
+    if (reason == null || reason.trim() == '') {
+      return throwError(() => new Error('A reason is required to cancel an invoice.'));
+    }
+    if ((invoice.paidamount ?? 0) > 0 || (invoice.creditedamount ?? 0) > 0) {
+      return throwError(() => new Error('Invoice ' + invoice.invoiceno + ' has payments or credit notes recorded and cannot be cancelled.'));
+    }
+    return this.ChangeInvoiceStatus(invoice, InvoiceStatus.Cancelled, {
+      cancelleddate: new Date(),
+      cancelreason: reason.trim()
+    });
+  }
+
+  // Amount still owed; nothing is owed on drafts or cancelled invoices
+  Outstanding(invoice:Invoice){
+    let status = this.Invoicestatus(invoice);
+    if (status == InvoiceStatus.Draft || status == InvoiceStatus.Cancelled) {
+      return 0;
+    }
+    return Math.max(this.pricing.Round(invoice.nettotal - (invoice.paidamount ?? 0) - (invoice.creditedamount ?? 0)), 0);
+  }
+
+  // Compares the customer's unpaid invoices plus the invoice being saved against the credit limit.
+  // invoiceid is the draft being edited, so its previously saved amount is not counted twice.
+  Creditcheck(customerid:string, invoiceamount:number, invoiceid?:number):Observable<CreditCheck>{
+    return forkJoin({
+      customer: this.Getcustomer(customerid),
+      invoices: this.http.get<Invoice[]>('http://localhost:3000/invoice', { params: new HttpParams().set('customerid', customerid) })
+    }).pipe(
+      map(res => {
+        let creditlimit = Number(res.customer.creditlimit) || 0;
+        let outstanding = this.pricing.Sum(res.invoices.filter(x => x.id != invoiceid).map(x => this.Outstanding(x)));
+        let exposure = this.pricing.Sum([outstanding, invoiceamount]);
+        return {
+          customerid: customerid,
+          customername: res.customer.name,
+          creditlimit: creditlimit,
+          outstanding: outstanding,
+          invoiceamount: invoiceamount,
+          exposure: exposure,
+          exceededby: creditlimit > 0 && exposure > creditlimit ? this.pricing.Round(exposure - creditlimit) : 0
+        };
+      })
+    );
+  }
+
+  // Default tax of an invoice or credit note, used for lines without their own tax code
+  Defaulttaxrate(document:{ taxcode:string, taxtype:string, taxperc:number }):TaxRate{
+    return {
+      taxcode: document.taxcode,
+      taxtype: this.pricing.Taxtype(document.taxtype),
+      taxperc: Number(document.taxperc) || 0
+    };
+  }
+
+  GetPayments(invoiceid:number){
+    return this.http.get<Payment[]>('http://localhost:3000/invoice/'+invoiceid+'/payments?_sort=paymentdate');
+  }
+
+  // Records a partial or full payment against an issued invoice. The paid amount is
+  // re-summed from the stored payments and the invoice moves to Paid once it covers nettotal.
+  AddPayment(invoiceid:number, payment:Omit<Payment, 'id' | 'invoiceId'>){
+    return this.GetInvoicebyCode(invoiceid).pipe(
+      switchMap(invoice => {
+        let error = this.Validatepayment(invoice, payment.amount);
+        if (error) {
+          return throwError(() => new Error(error));
+        }
+        return this.http.post<Payment>('http://localhost:3000/invoice/'+invoiceid+'/payments',
+          { ...payment, amount: this.pricing.Round(payment.amount) }).pipe(
+          switchMap(saved => this.GetPayments(invoiceid).pipe(
+            switchMap(payments => {
+              let paidamount = this.pricing.Round(payments.reduce((sum, x) => sum + Number(x.amount), 0));
+              let changes: Partial<Invoice> = { paidamount: paidamount };
+              if (this.pricing.Round(paidamount + (invoice.creditedamount ?? 0)) >= this.pricing.Round(invoice.nettotal)) {
+                changes.status = InvoiceStatus.Paid;
+                changes.paiddate = new Date();
+              }
+              return this.http.patch<Invoice>('http://localhost:3000/invoice/'+invoiceid, changes);
+            }),
+            map(updated => ({ payment: saved, invoice: updated })),
+            // keep the invoice and its payments in step: drop the payment if the invoice could not be updated
+            catchError(err => this.http.delete('http://localhost:3000/payments/'+saved.id).pipe(
+              catchError(() => of(null)),
+              switchMap(() => throwError(() => err))
+            ))
+          ))
+        );
+      })
+    );
+  }
+
+  // Settles an invoice by withdrawing from a banking account, so the usual minimum balance,
+  // overdraft and withdrawal limits apply. Once the withdrawal is attempted the outcome is emitted rather
+  // than thrown, so the caller can tell the banking store what happened to the account. If the payment
+  // cannot be recorded, the withdrawal and its overdraft fee are reversed; a reversal that fails is
+  // reported along with the payment error.
+  PayFromAccount(invoiceid:number, accountid:number, amount:number):Observable<AccountPayment>{
+    return this.GetInvoicebyCode(invoiceid).pipe(
+      switchMap(invoice => {
+        let error = this.Validatepayment(invoice, amount);
+        if (error) {
+          return throwError(() => new Error(error));
+        }
+        return this.transactionService.withdraw({
+          accountId: accountid,
+          amount: this.pricing.Round(amount),
+          remarks: 'Payment of invoice ' + (invoice.invoiceno ?? invoice.id)
+        }).pipe(
+          switchMap(withdrawal => {
+            let transaction = withdrawal.transaction;
+            return this.AddPayment(invoiceid, {
+              paymentdate: new Date(),
+              amount: transaction.amount,
+              mode: AccountPaymentMode,
+              reference: transaction.accountNumber + ' / Txn #' + transaction.id,
+              accountid: transaction.accountId,
+              accountnumber: transaction.accountNumber,
+              transactionid: transaction.id
+            }).pipe(
+              map(res => ({ accountid: accountid, withdrawal: withdrawal, reversals: [], invoice: res.invoice } as AccountPayment)),
+              catchError(err => this.Reversewithdrawal(withdrawal, 'Invoice payment could not be recorded', err.message))
+            );
+          }),
+          catchError(err => of({ accountid: accountid, reversals: [], error: err.message } as AccountPayment))
+        );
+      })
+    );
+  }
+
+  // The overdraft fee is reversed before the withdrawal it was charged on; reversals that went through
+  // are kept in the result even when a later one fails
+  private Reversewithdrawal(withdrawal:WithdrawalResponse, reason:string, error:string):Observable<AccountPayment>{
+    let transaction = withdrawal.transaction;
+    let transactions = withdrawal.overdraftFee ? [withdrawal.overdraftFee, transaction] : [transaction];
+    let reversals: ReversalResponse[] = [];
+    return from(transactions).pipe(
+      concatMap(item => this.transactionService.reverseTransaction(item.id, reason)),
+      tap(response => reversals.push(response)),
+      toArray(),
+      map(() => ({ accountid: transaction.accountId, withdrawal: withdrawal, reversals: reversals,
+        error: error + ' The amount withdrawn from ' + transaction.accountNumber + ' has been returned.' } as AccountPayment)),
+      catchError(reverseerr => of({ accountid: transaction.accountId, withdrawal: withdrawal, reversals: reversals,
+        error: error + ' The withdrawal (Txn #' + transaction.id + ') from ' + transaction.accountNumber +
+          ' could not be reversed: ' + reverseerr.message + ' Please contact support.' } as AccountPayment))
+    );
+  }
+
+  GetCreditNotes(invoiceid:number){
+    return this.http.get<CreditNote[]>('http://localhost:3000/invoice/'+invoiceid+'/creditnotes?_sort=creditdate');
   }
-  DeleteInvoice(invoiceNo:any){
-    return this.http.delete('http://localhost:3000/invoice/'+invoiceNo);
+
+  // Every credit note raised on or after fromdate (yyyy-MM-dd); a credit note never predates its invoice
+  GetCreditNotesSince(fromdate:string){
+    let params = new HttpParams().set('creditdate_gte', new Date(fromdate + 'T00:00:00').toISOString());
+    return this.http.get<CreditNote[]>('http://localhost:3000/creditnotes', { params: params });
+  }
+
+  // Quantity of each invoice line that has not been credited yet
+  Creditableqty(invoice:Invoice, creditnotes:CreditNote[]){
+    return invoice.products.map((line, index) => {
+      let credited = creditnotes.reduce((sum, note) => sum + note.products
+        .filter(x => x.lineindex == index)
+        .reduce((qty, x) => qty + Number(x.qty), 0), 0);
+      return Math.max(Number(line.qty) - credited, 0);
+    });
+  }
+
+  // Credit note for the chosen quantities of the invoice lines, each taxed at the rate of its invoice line
+  Buildcreditnote(invoice:Invoice, lines:{ lineindex:number, qty:number }[], reason:string, creditdate:Date){
+    let chosen = lines.filter(x => x.qty > 0);
+    let summary = this.pricing.Calculate(chosen.map(x => ({ ...invoice.products[x.lineindex], qty: x.qty })),
+      this.Defaulttaxrate(invoice));
+    let products: CreditNoteproducts[] = chosen.map((x, i) => {
+      let line = invoice.products[x.lineindex];
+      let priced = summary.lines[i];
+      return {
+        lineindex: x.lineindex,
+        productid: line.productid,
+        name: line.name,
+        description: line.description,
+        price: Number(line.price) || 0,
+        qty: x.qty,
+        total: priced.amount,
+        taxcode: priced.taxcode,
+        taxtype: priced.taxtype,
+        taxperc: priced.taxperc
+      };
+    });
+    let creditnote: Omit<CreditNote, 'id'> = {
+      invoiceId: invoice.id,
+      invoiceno: invoice.invoiceno ?? invoice.id.toString(),
+      customerid: invoice.customerid,
+      customername: invoice.customername,
+      creditdate: creditdate,
+      reason: reason,
+      taxcode: invoice.taxcode,
+      taxtype: invoice.taxtype,
+      taxperc: invoice.taxperc,
+      total: summary.total,
+      tax: summary.tax,
+      nettotal: summary.nettotal,
+      products: products
+    };
+    return creditnote;
+  }
+
+  // The invoice is updated first and the credit note numbered last, so a failed save
+  // puts the invoice back without leaving a hole in the CN series.
+  SaveCreditNote(invoiceid:number, lines:{ lineindex:number, qty:number }[], reason:string, creditdate:Date){
+    return forkJoin({
+      invoice: this.GetInvoicebyCode(invoiceid),
+      creditnotes: this.GetCreditNotes(invoiceid)
+    }).pipe(
+      switchMap(({ invoice, creditnotes }) => {
+        let creditnote = this.Buildcreditnote(invoice, lines, (reason ?? '').trim(), creditdate);
+        let error = this.Validatecreditnote(invoice, creditnotes, creditnote);
+        if (error) {
+          return throwError(() => new Error(error));
+        }
+        let creditedamount = this.pricing.Round((invoice.creditedamount ?? 0) + creditnote.nettotal);
+        let changes: Partial<Invoice> = { creditedamount: creditedamount };
+        if (this.pricing.Round((invoice.paidamount ?? 0) + creditedamount) >= this.pricing.Round(invoice.nettotal)) {
+          changes.status = InvoiceStatus.Paid;
+          changes.paiddate = new Date();
+        }
+        return this.http.patch<Invoice>('http://localhost:3000/invoice/'+invoiceid, changes).pipe(
+          switchMap(updated => this.Savenumbered<CreditNote>('CN', 'creditnotes', 'creditnoteno', creditdate, creditnote).pipe(
+            map(saved => ({ creditnote: saved, invoice: updated })),
+            catchError(err => this.http.patch('http://localhost:3000/invoice/'+invoiceid, {
+              creditedamount: invoice.creditedamount ?? 0,
+              status: invoice.status,
+              paiddate: invoice.paiddate ?? null
+            }).pipe(
+              catchError(() => of(null)),
+              switchMap(() => throwError(() => err))
+            ))
+          ))
+        );
+      })
+    );
+  }
+
+  Validatecreditnote(invoice:Invoice, creditnotes:CreditNote[], creditnote:Omit<CreditNote, 'id'>){
+    if (this.Invoicestatus(invoice) != InvoiceStatus.Issued) {
+      return 'Credit notes can only be raised against issued invoices with an amount outstanding.';
+    }
+    if (creditnote.reason == '') {
+      return 'A reason is required for a credit note.';
+    }
+    if (creditnote.products.length == 0) {
+      return 'Choose at least one line to credit.';
+    }
+    let creditable = this.Creditableqty(invoice, creditnotes);
+    let overcredited = creditnote.products.find(x => x.qty > creditable[x.lineindex]);
+    if (overcredited) {
+      return 'Only ' + creditable[overcredited.lineindex] + ' of ' + overcredited.name + ' can still be credited.';
+    }
+    let outstanding = this.Outstanding(invoice);
+    if (this.pricing.Round(creditnote.nettotal) > outstanding) {
+      return 'Credit of ' + creditnote.nettotal.toFixed(2) + ' is more than the outstanding ' + outstanding.toFixed(2) + '.';
+    }
+    return null;
+  }
+
+  Validatepayment(invoice:Invoice, amount:number){
+    if (this.Invoicestatus(invoice) != InvoiceStatus.Issued) {
+      return 'Payments can only be recorded against issued invoices.';
+    }
+    if (!(amount > 0)) {
+      return 'Payment amount must be greater than zero.';
+    }
+    let outstanding = this.Outstanding(invoice);
+    if (this.pricing.Round(amount) > outstanding) {
+      return 'Payment of ' + amount.toFixed(2) + ' is more than the outstanding ' + outstanding.toFixed(2) + '.';
+    }
+    return null;
+  }
+
+
+  private ChangeInvoiceStatus(invoice:Invoice, status:InvoiceStatus, changes:Partial<Invoice>){
+    if (!this.Canchangestatus(invoice, status)) {
+      return throwError(() => new Error('Invoice ' + invoice.invoiceno + ' cannot move from '
+        + this.Invoicestatus(invoice) + ' to ' + status + '.'));
+    }
+    return this.http.patch<Invoice>('http://localhost:3000/invoice/'+invoice.id, { ...changes, status: status });
   }
 }
@@ -2,6 +2,7 @@ import { HttpClient, HttpHeaders } from '@angular/common/http';
 import { Injectable, signal } from '@angular/core';
 import { Loginmodel, user } from '../model/Loginmodel';
 import { Customers } from '../model/masterModel';
+import { map } from 'rxjs';
 
 @Injectable({
   providedIn: 'root'
@@ -20,6 +21,17 @@ export class MasterService {
     return localStorage.getItem('username') != null;
   }
 
+  isAdmin() {
+    return localStorage.getItem('userrole') === 'admin';
+  }
+
+  // Supervisors are admin users; an override needs their own credentials, not the logged-in session
+  Verifysupervisor(_data: Loginmodel) {
+    return this.Proceedlogin(_data).pipe(
+      map(_resp => _resp.length > 0 && _resp[0].role === 'admin' ? _resp[0] : null)
+    );
+  }
+
   ProceedRegister(_data: user) {
     return this.http.post('http://localhost:3000/user',_data);
   }
@@ -0,0 +1,214 @@
+import { TestBed } from '@angular/core/testing';
+
+import { PricingService } from './pricing.service';
+import { TaxRate, TaxType } from '../model/Pricing';
+
+describe('PricingService', () => {
+  let service: PricingService;
+
+  const exclusive7: TaxRate = { taxcode: 'Exclusive', taxtype: TaxType.Exclusive, taxperc: 7 };
+  const inclusive7: TaxRate = { taxcode: 'Inclusive', taxtype: TaxType.Inclusive, taxperc: 7 };
+  const zero: TaxRate = { taxcode: 'Zero', taxtype: TaxType.Exclusive, taxperc: 0 };
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({});
+    service = TestBed.inject(PricingService);
+  });
+
+  it('should be created', () => {
+    expect(service).toBeTruthy();
+  });
+
+  describe('Round', () => {
+    it('should round half away from zero to two decimals', () => {
+      expect(service.Round(1.005)).toBe(1.01);
+      expect(service.Round(2.675)).toBe(2.68);
+      expect(service.Round(1.004)).toBe(1);
+      expect(service.Round(-1.005)).toBe(-1.01);
+    });
+
+    it('should clear floating point noise', () => {
+      expect(service.Round(0.1 + 0.2)).toBe(0.3);
+      expect(service.Round(2.5200000000000005)).toBe(2.52);
+    });
+
+    it('should return 0 for negative zero and non-numbers', () => {
+      expect(Object.is(service.Round(-0.001), 0)).toBeTrue();
+      expect(service.Round(NaN)).toBe(0);
+    });
+  });
+
+  describe('Taxtype', () => {
+    it('should recognise inclusive in any case', () => {
+      expect(service.Taxtype('Inclusive')).toBe(TaxType.Inclusive);
+      expect(service.Taxtype('inclusive')).toBe(TaxType.Inclusive);
+    });
+
+    it('should treat everything else as exclusive', () => {
+      expect(service.Taxtype('Exclusive')).toBe(TaxType.Exclusive);
+      expect(service.Taxtype('Zero')).toBe(TaxType.Exclusive);
+      expect(service.Taxtype('E')).toBe(TaxType.Exclusive);
+      expect(service.Taxtype(undefined)).toBe(TaxType.Exclusive);
+    });
+  });
+
+  describe('Taxrate', () => {
+    it('should build a rate from a tax master record', () => {
+      expect(service.Taxrate({ id: 'GST18', perc: 18, type: 'Exclusive' }))
+        .toEqual({ taxcode: 'GST18', taxtype: TaxType.Exclusive, taxperc: 18 });
+      expect(service.Taxrate({ id: 'Inclusive', perc: 7, type: 'Inclusive' }).taxtype).toBe(TaxType.Inclusive);
+    });
+  });
+
+  describe('Priceline', () => {
+    it('should add exclusive tax on top of the price', () => {
+      const line = service.Priceline({ qty: 2, price: 10 }, exclusive7);
+      expect(line.amount).toBe(20);
+      expect(line.taxable).toBe(20);
+      expect(line.tax).toBe(1.4);
+      expect(line.nettotal).toBe(21.4);
+    });
+
+    it('should take inclusive tax out of the price', () => {
+      const line = service.Priceline({ qty: 1, price: 107 }, inclusive7);
+      expect(line.amount).toBe(107);
+      expect(line.taxable).toBe(100);
+      expect(line.tax).toBe(7);
+      expect(line.nettotal).toBe(107);
+    });
+
+    it('should round inclusive tax and keep the payable amount equal to the price', () => {
+      const line = service.Priceline({ qty: 1, price: 100 }, inclusive7);
+      expect(line.tax).toBe(6.54);
+      expect(line.taxable).toBe(93.46);
+      expect(line.nettotal).toBe(100);
+    });
+
+    it('should charge no tax at a zero rate but still total the line', () => {
+      const line = service.Priceline({ qty: 3, price: 12.5 }, zero);
+      expect(line.tax).toBe(0);
+      expect(line.nettotal).toBe(37.5);
+    });
+
+    it('should accept quantities and prices stored as strings', () => {
+      const line = service.Priceline({ qty: '2', price: '11' }, zero);
+      expect(line.amount).toBe(22);
+    });
+
+    it('should treat missing or invalid numbers as zero', () => {
+      const line = service.Priceline({ qty: 'abc', price: 10 }, exclusive7);
+      expect(line.amount).toBe(0);
+      expect(line.tax).toBe(0);
+    });
+
+    it('should use the line rate when the line has its own tax code', () => {
+      const line = service.Priceline({ qty: 1, price: 100, taxcode: 'GST18', taxtype: 'Exclusive', taxperc: 18 }, exclusive7);
+      expect(line.taxcode).toBe('GST18');
+      expect(line.tax).toBe(18);
+    });
+
+    it('should fall back to the default rate when the line rate is incomplete', () => {
+      const line = service.Priceline({ qty: 1, price: 100, taxcode: 'GST18' }, exclusive7);
+      expect(line.taxcode).toBe('Exclusive');
+      expect(line.tax).toBe(7);
+    });
+
+    it('should normalise the tax type of the default rate', () => {
+      const legacy = { taxcode: 'Zero', taxtype: 'Zero' as TaxType, taxperc: 0 };
+      expect(service.Priceline({ qty: 1, price: 11 }, legacy).taxtype).toBe(TaxType.Exclusive);
+    });
+  });
+
+  describe('Calculate', () => {
+    it('should return zeros for no lines', () => {
+      const result = service.Calculate([], exclusive7);
+      expect(result.total).toBe(0);
+      expect(result.tax).toBe(0);
+      expect(result.nettotal).toBe(0);
+      expect(result.breakdown).toEqual([]);
+    });
+
+    it('should match the totals of a stored exclusive invoice', () => {
+      const result = service.Calculate([
+        { qty: 1, price: '11' },
+        { qty: 1, price: '25' }
+      ], exclusive7);
+      expect(result.total).toBe(36);
+      expect(result.tax).toBe(2.52);
+      expect(result.nettotal).toBe(38.52);
+    });
+
+    it('should not lose the total of an exclusive invoice at a zero rate', () => {
+      const result = service.Calculate([{ qty: 1, price: 11 }], { ...exclusive7, taxperc: 0 });
+      expect(result.nettotal).toBe(11);
+    });
+
+    it('should report the taxable value of inclusive lines as the total', () => {
+      const result = service.Calculate([{ qty: 1, price: 107 }, { qty: 2, price: 53.5 }], inclusive7);
+      expect(result.total).toBe(200);
+      expect(result.tax).toBe(14);
+      expect(result.nettotal).toBe(214);
+    });
+
+    it('should break the tax down per tax code across several rates', () => {
+      const result = service.Calculate([
+        { qty: 2, price: 50, taxcode: 'GST5', taxtype: 'Exclusive', taxperc: 5 },
+        { qty: 1, price: 200, taxcode: 'GST18', taxtype: 'Exclusive', taxperc: 18 },
+        { qty: 1, price: 10 },
+        { qty: 1, price: 100, taxcode: 'GST5', taxtype: 'Exclusive', taxperc: 5 }
+      ], exclusive7);
+
+      expect(result.breakdown).toEqual([
+        { taxcode: 'GST5', taxtype: TaxType.Exclusive, taxperc: 5, taxable: 200, tax: 10 },
+        { taxcode: 'GST18', taxtype: TaxType.Exclusive, taxperc: 18, taxable: 200, tax: 36 },
+        { taxcode: 'Exclusive', taxtype: TaxType.Exclusive, taxperc: 7, taxable: 10, tax: 0.7 }
+      ]);
+      expect(result.total).toBe(410);
+      expect(result.tax).toBe(46.7);
+      expect(result.nettotal).toBe(456.7);
+    });
+
+    it('should mix inclusive and exclusive lines', () => {
+      const result = service.Calculate([
+        { qty: 1, price: 107, taxcode: 'Inclusive', taxtype: 'Inclusive', taxperc: 7 },
+        { qty: 1, price: 100, taxcode: 'GST18', taxtype: 'Exclusive', taxperc: 18 }
+      ], zero);
+      expect(result.total).toBe(200);
+      expect(result.tax).toBe(25);
+      expect(result.nettotal).toBe(225);
+      expect(result.breakdown.map(x => x.taxtype)).toEqual([TaxType.Inclusive, TaxType.Exclusive]);
+    });
+
+    it('should round each line before totalling', () => {
+      // 0.005 of tax per line rounds up to 0.01 on every line
+      const result = service.Calculate([
+        { qty: 1, price: 0.05 },
+        { qty: 1, price: 0.05 },
+        { qty: 1, price: 0.05 }
+      ], { taxcode: 'T10', taxtype: TaxType.Exclusive, taxperc: 10 });
+      expect(result.lines.map(x => x.tax)).toEqual([0.01, 0.01, 0.01]);
+      expect(result.tax).toBe(0.03);
+      expect(result.nettotal).toBe(0.18);
+    });
+
+    it('should always foot: lines, breakdown and totals agree', () => {
+      const result = service.Calculate([
+        { qty: 3, price: 33.33, taxcode: 'GST18', taxtype: 'Exclusive', taxperc: 18 },
+        { qty: 7, price: 1.99, taxcode: 'Inclusive', taxtype: 'Inclusive', taxperc: 7 },
+        { qty: 0.5, price: 19.99 },
+        { qty: 11, price: 0.7, taxcode: 'GST5', taxtype: 'Exclusive', taxperc: 5 }
+      ], exclusive7);
+
+      const linetax = service.Sum(result.lines.map(x => x.tax));
+      const linetaxable = service.Sum(result.lines.map(x => x.taxable));
+      expect(result.tax).toBe(linetax);
+      expect(result.total).toBe(linetaxable);
+      expect(service.Sum(result.breakdown.map(x => x.tax))).toBe(result.tax);
+      expect(service.Sum(result.breakdown.map(x => x.taxable))).toBe(result.total);
+      expect(result.nettotal).toBe(service.Round(result.total + result.tax));
+      result.lines.forEach(line => {
+        expect(line.nettotal).toBe(service.Round(line.taxable + line.tax));
+      });
+    });
+  });
+});
@@ -0,0 +1,98 @@
+import { Injectable } from '@angular/core';
+import { Tax } from '../model/Tax';
+import { PricedLine, PricingLine, PricingResult, TaxBreakdown, TaxRate, TaxType } from '../model/Pricing';
+
+// Tax and totals for invoices and credit notes. Every line is rounded to the currency
+// first and the document totals are sums of the rounded lines, so totals always foot.
+@Injectable({
+  providedIn: 'root'
+})
+export class PricingService {
+
+  readonly decimals = 2;
+
+  constructor() { }
+
+  Calculate(lines:PricingLine[], defaulttax:TaxRate):PricingResult{
+    let priced = lines.map(line => this.Priceline(line, defaulttax));
+    let breakdown: TaxBreakdown[] = [];
+    priced.forEach(line => {
+      let group = breakdown.find(x => x.taxcode == line.taxcode && x.taxtype == line.taxtype && x.taxperc == line.taxperc);
+      if (group == null) {
+        group = { taxcode: line.taxcode, taxtype: line.taxtype, taxperc: line.taxperc, taxable: 0, tax: 0 };
+        breakdown.push(group);
+      }
+      group.taxable = this.Round(group.taxable + line.taxable);
+      group.tax = this.Round(group.tax + line.tax);
+    });
+
+    let total = this.Sum(priced.map(x => x.taxable));
+    let tax = this.Sum(priced.map(x => x.tax));
+    return {
+      lines: priced,
+      total: total,
+      tax: tax,
+      nettotal: this.Round(total + tax),
+      breakdown: breakdown
+    };
+  }
+
+  Priceline(line:PricingLine, defaulttax:TaxRate):PricedLine{
+    let rate = this.Linerate(line, defaulttax);
+    let amount = this.Round(this.Number(line.qty) * this.Number(line.price));
+    let taxable = amount;
+    let tax = 0;
+
+    if (rate.taxtype == TaxType.Inclusive) {
+      // the price already carries the tax; take it back out
+      tax = this.Round(amount - (amount * 100 / (100 + rate.taxperc)));
+      taxable = this.Round(amount - tax);
+    } else {
+      tax = this.Round(amount * rate.taxperc / 100);
+    }
+
+    return {
+      ...rate,
+      amount: amount,
+      taxable: taxable,
+      tax: tax,
+      nettotal: this.Round(taxable + tax)
+    };
+  }
+
+  Taxrate(tax:Tax):TaxRate{
+    return { taxcode: tax.id, taxtype: this.Taxtype(tax.type), taxperc: this.Number(tax.perc) };
+  }
+
+  // Anything other than Inclusive (including older codes such as 'Zero') is charged on top of the price
+  Taxtype(value:string|null|undefined):TaxType{
+    return (value ?? '').toLowerCase() == 'inclusive' ? TaxType.Inclusive : TaxType.Exclusive;
+  }
+
+  // Half away from zero at the currency precision; toPrecision clears binary noise such as 1.005 * 100 = 100.49999...
+  Round(amount:number):number{
+    let factor = Math.pow(10, this.decimals);
+    let value = Number(amount) || 0;
+    let scaled = Number((Math.abs(value) * factor).toPrecision(15));
+    let rounded = Math.sign(value) * Math.round(scaled) / factor;
+    return rounded == 0 ? 0 : rounded;
+  }
+
+  Sum(amounts:number[]):number{
+    return this.Round(amounts.reduce((sum, x) => sum + x, 0));
+  }
+
+  private Linerate(line:PricingLine, defaulttax:TaxRate):TaxRate{
+    if (line.taxcode == null || line.taxcode == '' || line.taxperc == null) {
+      return { ...defaulttax, taxtype: this.Taxtype(defaulttax.taxtype), taxperc: this.Number(defaulttax.taxperc) };
+    }
+    return { taxcode: line.taxcode, taxtype: this.Taxtype(line.taxtype), taxperc: this.Number(line.taxperc) };
+  }
+
+  // Older invoices store prices and quantities as strings
+  private Number(value:number|string|null|undefined):number{
+    let parsed = Number(value);
+    return isFinite(parsed) ? parsed : 0;
+  }
+
+}
@@ -0,0 +1,106 @@
+import { TestBed } from '@angular/core/testing';
+import { provideHttpClient } from '@angular/common/http';
+import { provideHttpClientTesting } from '@angular/common/http/testing';
+
+import { SalesDashboardService } from './sales-dashboard.service';
+import { Invoice, InvoiceStatus } from '../model/Invoice';
+import { CreditNote } from '../model/CreditNote';
+import { Invoiceproducts } from '../model/Invoiceproduct';
+
+describe('SalesDashboardService', () => {
+  let service: SalesDashboardService;
+
+  const line = (productid: string, name: string, qty: number, price: number, taxcode?: string, taxperc?: number): Invoiceproducts =>
+    ({ productid, name, description: '', qty, price, total: qty * price, taxcode, taxtype: taxcode ? 'Exclusive' : undefined, taxperc });
+
+  const invoice = (id: number, date: string, status: InvoiceStatus | undefined, customerid: string, products: Invoiceproducts[]): Invoice => {
+    let total = products.reduce((sum, x) => sum + x.qty * x.price, 0);
+    let tax = products.reduce((sum, x) => sum + x.qty * x.price * (x.taxperc ?? 10) / 100, 0);
+    return {
+      id, status, customerid, customername: 'Customer ' + customerid, deliveryaddress: '',
+      invoicedate: new Date(date + 'T10:00:00'), taxcode: 'GST10', taxtype: 'Exclusive', taxperc: 10,
+      products, total, tax, nettotal: total + tax
+    };
+  };
+
+  const invoices = [
+    invoice(1, '2026-03-30', InvoiceStatus.Issued, 'C1', [line('1', 'Pen', 10, 10), line('2', 'Book', 1, 100, 'GST5', 5)]),
+    invoice(2, '2026-04-01', InvoiceStatus.Paid, 'C2', [line('2', 'Book', 3, 100)]),
+    invoice(3, '2026-04-02', InvoiceStatus.Issued, 'C1', [line('1', 'Pen', 5, 10)]),
+    invoice(4, '2026-04-02', InvoiceStatus.Draft, 'C3', [line('1', 'Pen', 100, 10)]),
+    invoice(5, '2026-04-03', InvoiceStatus.Cancelled, 'C3', [line('2', 'Book', 100, 100)]),
+    invoice(6, '2026-04-03', undefined, 'C3', [line('2', 'Book', 100, 100)])
+  ];
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({
+      providers: [provideHttpClient(), provideHttpClientTesting()]
+    });
+    service = TestBed.inject(SalesDashboardService);
+  });
+
+  it('should be created', () => {
+    expect(service).toBeTruthy();
+  });
+
+  it('should count only issued and paid invoices', () => {
+    let result = service.Aggregate(invoices, [], '2026-03-01', '2026-04-30');
+    expect(result.count).toBe(3);
+    expect(result.revenue).toBe(215 + 330 + 55);
+    expect(result.tax).toBe(15 + 30 + 5);
+  });
+
+  it('should group revenue by day, Monday-based week and month', () => {
+    let result = service.Aggregate(invoices, [], '2026-03-01', '2026-04-30');
+    expect(result.periods.day.map(x => x.key)).toEqual(['2026-03-30', '2026-04-01', '2026-04-02']);
+    expect(result.periods.week.length).toBe(1);
+    expect(result.periods.week[0]).toEqual(jasmine.objectContaining({ fromdate: '2026-03-30', todate: '2026-04-05', count: 3, revenue: 600 }));
+    expect(result.periods.month.map(x => [x.fromdate, x.todate, x.revenue])).toEqual([
+      ['2026-03-01', '2026-03-31', 215],
+      ['2026-04-01', '2026-04-30', 385]
+    ]);
+  });
+
+  it('should split tax by the line tax code, type and rate', () => {
+    let inclusive = invoice(7, '2026-04-03', InvoiceStatus.Issued, 'C3',
+      [line('1', 'Pen', 2, 10, 'GST5', 5), { ...line('3', 'Ink', 1, 105, 'GST5', 5), taxtype: 'Inclusive' }]);
+    let result = service.Aggregate([...invoices, inclusive], [], '2026-03-01', '2026-04-30');
+    expect(result.taxes).toEqual([
+      { taxcode: 'GST10', taxtype: 'Exclusive', taxperc: 10, taxable: 450, tax: 45 },
+      { taxcode: 'GST5', taxtype: 'Exclusive', taxperc: 5, taxable: 120, tax: 6 },
+      { taxcode: 'GST5', taxtype: 'Inclusive', taxperc: 5, taxable: 100, tax: 5 }
+    ]);
+  });
+
+  it('should take credit notes off the invoice they were raised against', () => {
+    let creditnote: CreditNote = {
+      id: 1, invoiceId: 1, invoiceno: '1', customerid: 'C1', customername: 'Customer C1', creditdate: new Date('2026-04-20T10:00:00'),
+      reason: 'Damaged', taxcode: 'GST10', taxtype: 'Exclusive', taxperc: 10, total: 20, tax: 2, nettotal: 22,
+      products: [{ ...line('1', 'Pen', 2, 10), lineindex: 0 }]
+    };
+    let result = service.Aggregate(invoices, [creditnote], '2026-03-01', '2026-04-30');
+    expect(result.revenue).toBe(600 - 22);
+    expect(result.tax).toBe(50 - 2);
+    expect(result.periods.month.map(x => [x.fromdate, x.revenue, x.tax])).toEqual([['2026-03-01', 193, 13], ['2026-04-01', 385, 35]]);
+    expect(result.taxes).toEqual([
+      jasmine.objectContaining({ taxcode: 'GST10', taxable: 430, tax: 43 }),
+      jasmine.objectContaining({ taxcode: 'GST5', taxable: 100, tax: 5 })
+    ]);
+    expect(result.customers.map(x => [x.customerid, x.revenue])).toEqual([['C2', 330], ['C1', 248]]);
+    expect(result.productsbyqty.map(x => [x.name, x.qty, x.value])).toEqual([['Pen', 13, 130], ['Book', 4, 400]]);
+  });
+
+  it('should rank customers by revenue and products by qty and value', () => {
+    let result = service.Aggregate(invoices, [], '2026-03-01', '2026-04-30');
+    expect(result.customers.map(x => [x.customerid, x.count, x.revenue])).toEqual([['C2', 1, 330], ['C1', 2, 270]]);
+    expect(result.productsbyqty.map(x => [x.name, x.qty])).toEqual([['Pen', 15], ['Book', 4]]);
+    expect(result.productsbyvalue.map(x => [x.name, x.value])).toEqual([['Book', 400], ['Pen', 150]]);
+  });
+
+  it('should return empty tables when nothing was sold', () => {
+    let result = service.Aggregate([invoices[3]], [], '2026-04-01', '2026-04-30');
+    expect(result.count).toBe(0);
+    expect(result.periods.month).toEqual([]);
+    expect(result.customers).toEqual([]);
+  });
+});
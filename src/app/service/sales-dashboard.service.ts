@@ -0,0 +1,140 @@
+import { Injectable } from '@angular/core';
+import { formatDate } from '@angular/common';
+import { forkJoin, map } from 'rxjs';
+import { Invoice, InvoiceStatus } from '../model/Invoice';
+import { CreditNote } from '../model/CreditNote';
+import { SalesCustomerRow, SalesDashboard, SalesPeriod, SalesPeriodRow, SalesProductRow, SalesTaxRow } from '../model/SalesDashboard';
+import { InvoiceService } from './invoice.service';
+import { PricingService } from './pricing.service';
+
+// Sales figures for the home dashboard, aggregated in the browser from the invoices in a date range
+@Injectable({
+  providedIn: 'root'
+})
+export class SalesDashboardService {
+
+  toplimit = 5;
+
+  constructor(private service: InvoiceService, private pricing: PricingService) { }
+
+  // fromdate and todate are yyyy-MM-dd, both days inclusive
+  GetDashboard(fromdate: string, todate: string) {
+    return forkJoin({
+      invoices: this.service.GetFilteredInvoices({ fromdate: fromdate, todate: todate, page: 1, limit: 0 }),
+      creditnotes: this.service.GetCreditNotesSince(fromdate)
+    }).pipe(
+      map(res => this.Aggregate(res.invoices, res.creditnotes, fromdate, todate))
+    );
+  }
+
+  // Only issued and paid invoices count as sales; drafts and cancelled invoices are left out.
+  // Credit notes are taken off the invoice they were raised against, whatever their own date.
+  Aggregate(invoices: Invoice[], creditnotes: CreditNote[], fromdate: string, todate: string): SalesDashboard {
+    let sales = invoices.filter(x => {
+      let status = this.service.Invoicestatus(x);
+      return status == InvoiceStatus.Issued || status == InvoiceStatus.Paid;
+    });
+    let credits = new Map<number, CreditNote[]>();
+    creditnotes.forEach(note => credits.set(note.invoiceId, [...(credits.get(note.invoiceId) ?? []), note]));
+    let net = new Map(sales.map(invoice => [invoice, this.Net(invoice, credits.get(invoice.id) ?? [])]));
+
+    let taxes = new Map<string, SalesTaxRow>();
+    let customers = new Map<string, SalesCustomerRow>();
+    let products = new Map<string, SalesProductRow>();
+    sales.forEach(invoice => {
+      let customer = customers.get(invoice.customerid) ??
+        { customerid: invoice.customerid, customername: invoice.customername, count: 0, revenue: 0 };
+      customer.count++;
+      customer.revenue = this.pricing.Sum([customer.revenue, net.get(invoice)!.revenue]);
+      customers.set(invoice.customerid, customer);
+
+      this.Addlines(invoice, 1, taxes, products);
+      (credits.get(invoice.id) ?? []).forEach(note => this.Addlines(note, -1, taxes, products));
+    });
+
+    let productlist = [...products.values()];
+    return {
+      fromdate: fromdate,
+      todate: todate,
+      count: sales.length,
+      revenue: this.pricing.Sum(sales.map(x => net.get(x)!.revenue)),
+      tax: this.pricing.Sum(sales.map(x => net.get(x)!.tax)),
+      outstanding: this.pricing.Sum(sales.map(x => this.service.Outstanding(x))),
+      periods: {
+        day: this.Periods(sales, net, 'day'),
+        week: this.Periods(sales, net, 'week'),
+        month: this.Periods(sales, net, 'month')
+      },
+      taxes: [...taxes.values()].sort((a, b) => a.taxcode.localeCompare(b.taxcode) || a.taxperc - b.taxperc || a.taxtype.localeCompare(b.taxtype)),
+      customers: [...customers.values()].sort((a, b) => b.revenue - a.revenue).slice(0, this.toplimit),
+      productsbyqty: [...productlist].sort((a, b) => b.qty - a.qty || b.value - a.value).slice(0, this.toplimit),
+      productsbyvalue: [...productlist].sort((a, b) => b.value - a.value || b.qty - a.qty).slice(0, this.toplimit)
+    };
+  }
+
+  // Invoice amounts less everything credited against it
+  private Net(invoice: Invoice, creditnotes: CreditNote[]) {
+    let credited = (amount: (x: Invoice | CreditNote) => number) =>
+      this.pricing.Round((Number(amount(invoice)) || 0) - this.pricing.Sum(creditnotes.map(x => Number(amount(x)) || 0)));
+    return { tax: credited(x => x.tax), revenue: credited(x => x.nettotal) };
+  }
+
+  // Adds (sign 1) or takes back (sign -1) the lines of a document: tax at each line's own rate, and product qty and value
+  private Addlines(document: Invoice | CreditNote, sign: number, taxes: Map<string, SalesTaxRow>, products: Map<string, SalesProductRow>) {
+    let priced = this.pricing.Calculate(document.products, this.service.Defaulttaxrate(document));
+    priced.breakdown.forEach(item => {
+      let key = item.taxcode + '|' + item.taxtype + '|' + item.taxperc;
+      let row = taxes.get(key) ?? { taxcode: item.taxcode, taxtype: item.taxtype, taxperc: item.taxperc, taxable: 0, tax: 0 };
+      row.taxable = this.pricing.Sum([row.taxable, sign * item.taxable]);
+      row.tax = this.pricing.Sum([row.tax, sign * item.tax]);
+      taxes.set(key, row);
+    });
+    document.products.forEach((line, i) => {
+      let key = line.productid.toString();
+      let product = products.get(key) ?? { productid: key, name: line.name, qty: 0, value: 0 };
+      product.qty += sign * (Number(line.qty) || 0);
+      product.value = this.pricing.Sum([product.value, sign * priced.lines[i].taxable]);
+      products.set(key, product);
+    });
+  }
+
+  // Weeks start on Monday; periods without sales are left out
+  private Periods(invoices: Invoice[], net: Map<Invoice, { tax: number, revenue: number }>, period: SalesPeriod): SalesPeriodRow[] {
+    let rows = new Map<string, SalesPeriodRow>();
+    invoices.forEach(invoice => {
+      let start = this.Periodstart(new Date(invoice.invoicedate), period);
+      let key = this.Day(start);
+      let row = rows.get(key) ?? { key: key, fromdate: key, todate: this.Day(this.Periodend(start, period)), count: 0, revenue: 0, tax: 0 };
+      row.count++;
+      row.revenue = this.pricing.Sum([row.revenue, net.get(invoice)!.revenue]);
+      row.tax = this.pricing.Sum([row.tax, net.get(invoice)!.tax]);
+      rows.set(key, row);
+    });
+    return [...rows.values()].sort((a, b) => a.key.localeCompare(b.key));
+  }
+
+  private Periodstart(date: Date, period: SalesPeriod) {
+    let start = new Date(date.getFullYear(), date.getMonth(), date.getDate());
+    if (period == 'week') {
+      start.setDate(start.getDate() - (start.getDay() + 6) % 7);
+    } else if (period == 'month') {
+      start.setDate(1);
+    }
+    return start;
+  }
+
+  private Periodend(start: Date, period: SalesPeriod) {
+    if (period == 'week') {
+      return new Date(start.getFullYear(), start.getMonth(), start.getDate() + 6);
+    }
+    if (period == 'month') {
+      return new Date(start.getFullYear(), start.getMonth() + 1, 0);
+    }
+    return start;
+  }
+
+  private Day(date: Date) {
+    return formatDate(date, 'yyyy-MM-dd', 'en-US');
+  }
+
+}